@@ -0,0 +1,292 @@
+import {parseArgs} from 'util';
+import {CONFLICT_POLICIES} from './merge';
+import type {ConflictPolicy} from './merge';
+
+export type CommandName = 'new' | 'list' | 'info' | 'validate' | 'template' | 'cache' | 'update' | 'lint' | 'test';
+
+interface OptionDefinition {
+    type: 'boolean' | 'string';
+    short?: string;
+    multiple?: boolean;
+    value?: string;
+    description: string;
+}
+
+interface CommandDefinition {
+    name: CommandName;
+    usage: string;
+    description: string;
+    // Positional arguments as [required, maximum]
+    args: [number, number];
+    options: string[];
+}
+
+const OPTIONS: Record<string, OptionDefinition> = {
+    here: {type: 'boolean', description: 'Generate into the current directory'},
+    var: {type: 'string', multiple: true, value: 'KEY=value', description: 'Set a placeholder value (repeatable)'},
+    with: {type: 'string', multiple: true, value: 'layers', description: 'Merge these templates on top, comma-separated (repeatable)'},
+    answers: {type: 'string', value: 'file', description: 'Read placeholder values from a JSON or YAML file'},
+    yes: {type: 'boolean', short: 'y', description: 'Accept defaults and overwrite confirmations'},
+    'on-conflict': {type: 'string', value: 'policy', description: `Existing files that differ: ${CONFLICT_POLICIES.join(', ')}`},
+    install: {type: 'boolean', description: 'Install dependencies after generating'},
+    'no-install': {type: 'boolean', description: 'Do not install dependencies, even if the template asks to'},
+    git: {type: 'boolean', description: 'Run git init and make an initial commit'},
+    'no-git': {type: 'boolean', description: 'Do not initialize a git repository'},
+    scripts: {type: 'boolean', description: 'Run the template\'s postGenerate commands without asking'},
+    'no-scripts': {type: 'boolean', description: 'Never run the template\'s postGenerate commands'},
+    'dry-run': {type: 'boolean', description: 'Show the files and diffs without writing anything'},
+    offline: {type: 'boolean', description: 'Use the cached template, never the network'},
+    refresh: {type: 'boolean', description: 'Download the template again, even if the cache is up to date'},
+    to: {type: 'string', value: 'ref', description: 'Update to this branch, tag or commit instead of the recorded ref'},
+    'update-snapshots': {type: 'boolean', short: 'u', description: 'Replace snapshots that differ instead of failing'},
+    description: {type: 'string', value: 'text', description: 'Description of the template being added'},
+    tag: {type: 'string', multiple: true, value: 'tags', description: 'Tags to list templates by, or of the template being added, comma-separated (repeatable)'},
+    help: {type: 'boolean', short: 'h', description: 'Show help'},
+    version: {type: 'boolean', short: 'v', description: 'Show the gen-from version'}
+};
+
+const GLOBAL_OPTIONS = ['help', 'version'];
+
+const COMMANDS: CommandDefinition[] = [
+    {
+        name: 'new',
+        usage: 'new [template] [dir]',
+        description: 'Generate a project from a template (default command)',
+        args: [0, 2],
+        options: ['here', 'with', 'var', 'answers', 'yes', 'on-conflict', 'install', 'no-install', 'git', 'no-git', 'scripts', 'no-scripts', 'dry-run', 'offline', 'refresh']
+    },
+    {
+        name: 'list',
+        usage: 'list',
+        description: 'List the configured templates, grouped by category',
+        args: [0, 0],
+        options: ['tag']
+    },
+    {
+        name: 'info',
+        usage: 'info <template>',
+        description: 'Show the repository, description and placeholders of a template',
+        args: [1, 1],
+        options: ['offline', 'refresh']
+    },
+    {
+        name: 'validate',
+        usage: 'validate <template>',
+        description: 'Check that a template exists and its gen-from.json is valid',
+        args: [1, 1],
+        options: ['offline', 'refresh']
+    },
+    {
+        name: 'template',
+        usage: 'template <add|remove> <name> [repo]',
+        description: 'Add or remove a template in your user registry',
+        args: [2, 3],
+        options: ['description', 'tag']
+    },
+    {
+        name: 'cache',
+        usage: 'cache <list|clear> [template]',
+        description: 'List the cached templates, or remove them from the cache',
+        args: [1, 2],
+        options: []
+    },
+    {
+        name: 'update',
+        usage: 'update [dir]',
+        description: 'Apply the changes of a newer template version to a generated project',
+        args: [0, 1],
+        options: ['to', 'var', 'answers', 'yes', 'dry-run', 'offline', 'refresh']
+    },
+    {
+        name: 'lint',
+        usage: 'lint [path]',
+        description: 'Check a local template for undeclared, unused and malformed placeholders',
+        args: [0, 1],
+        options: []
+    },
+    {
+        name: 'test',
+        usage: 'test <path> [answers...]',
+        description: 'Render a local template with answers files and compare the output with their snapshots',
+        // Answers files after the path come from an unquoted glob the shell expanded
+        args: [1, Infinity],
+        options: ['answers', 'update-snapshots']
+    }
+];
+
+export interface ParsedArgs {
+    command: CommandName;
+    // False when `new` was implied, e.g. `gen-from my-template`
+    explicitCommand: boolean;
+    positionals: string[];
+    help: boolean;
+    version: boolean;
+    here: boolean;
+    // Layers from --with, in order
+    with: string[];
+    vars: string[];
+    answersFile?: string;
+    yes: boolean;
+    dryRun: boolean;
+    offline: boolean;
+    refresh: boolean;
+    onConflict?: ConflictPolicy;
+    // Unset when neither --x nor --no-x was given, the template decides
+    install?: boolean;
+    git?: boolean;
+    scripts?: boolean;
+    // Ref `update` moves the project to
+    to?: string;
+    updateSnapshots: boolean;
+    description?: string;
+    // Tags from --tag, filters of `list` and tags of `template add`
+    tags: string[];
+}
+
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+// Values of a repeatable option that also takes comma-separated lists
+function splitList(value: unknown): string[] {
+    return ((value as string[] | undefined) ?? []).flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+function parseCliArgs(argv: string[]): ParsedArgs {
+    const {values, positionals, tokens} = parseArgs({
+        args: argv,
+        options: Object.fromEntries(Object.entries(OPTIONS).map(([name, {type, short, multiple}]) => [name, {
+            type,
+            ...(short ? {short} : {}),
+            ...(multiple ? {multiple} : {})
+        }])),
+        allowPositionals: true,
+        strict: false,
+        tokens: true
+    });
+
+    // An explicit command may only be the first positional, otherwise `new` is implied
+    const explicitCommand = COMMANDS.find(command => command.name === positionals[0]);
+    const command = explicitCommand ?? COMMANDS[0];
+    const commandArgs = explicitCommand ? positionals.slice(1) : positionals;
+
+    for (const token of tokens ?? []) {
+        if (token.kind !== 'option') {
+            continue;
+        }
+
+        const definition = OPTIONS[token.name];
+        if (!definition) {
+            throw new UsageError(`Unknown option "${token.rawName}"`);
+        }
+        if (!GLOBAL_OPTIONS.includes(token.name) && !command.options.includes(token.name)) {
+            throw new UsageError(`Option "${token.rawName}" is not supported by "${command.name}"`);
+        }
+        if (definition.type === 'string' && token.value === undefined) {
+            throw new UsageError(`Missing value for "${token.rawName}"`);
+        }
+        if (definition.type === 'boolean' && token.value !== undefined) {
+            throw new UsageError(`Option "${token.rawName}" does not take a value`);
+        }
+    }
+
+    const onConflict = values['on-conflict'] as string | undefined;
+    if (onConflict !== undefined && !(CONFLICT_POLICIES as readonly string[]).includes(onConflict)) {
+        throw new UsageError(`Invalid value "${onConflict}" for "--on-conflict", expected ${CONFLICT_POLICIES.join(', ')}`);
+    }
+
+    // --install / --no-install style pairs, giving both is a mistake
+    const toggle = (name: string): boolean | undefined => {
+        if (values[name] === true && values[`no-${name}`] === true) {
+            throw new UsageError(`Use either "--${name}" or "--no-${name}", not both`);
+        }
+        return values[name] === true ? true : values[`no-${name}`] === true ? false : undefined;
+    };
+
+    if (values.offline === true && values.refresh === true) {
+        throw new UsageError('Use either "--offline" or "--refresh", not both');
+    }
+
+    const help = values.help === true;
+    const version = values.version === true;
+
+    if (!help && !version) {
+        const [required, maximum] = command.args;
+        if (commandArgs.length < required) {
+            throw new UsageError(`Missing argument for "${command.name}", usage: gen-from ${command.usage}`);
+        }
+        if (commandArgs.length > maximum) {
+            throw new UsageError(`Unexpected argument "${commandArgs[maximum]}", usage: gen-from ${command.usage}`);
+        }
+    }
+
+    return {
+        command: command.name,
+        explicitCommand: Boolean(explicitCommand),
+        positionals: commandArgs,
+        help,
+        version,
+        here: values.here === true,
+        with: splitList(values.with),
+        vars: (values.var as string[] | undefined) ?? [],
+        answersFile: values.answers as string | undefined,
+        yes: values.yes === true,
+        dryRun: values['dry-run'] === true,
+        offline: values.offline === true,
+        refresh: values.refresh === true,
+        onConflict: onConflict as ConflictPolicy | undefined,
+        install: toggle('install'),
+        git: toggle('git'),
+        scripts: toggle('scripts'),
+        to: values.to as string | undefined,
+        updateSnapshots: values['update-snapshots'] === true,
+        description: values.description as string | undefined,
+        tags: splitList(values.tag)
+    };
+}
+
+// Two columns, the second starting two spaces after the longest entry of the first
+function formatColumns(rows: [string, string][]): string[] {
+    const width = Math.max(...rows.map(([left]) => left.length)) + 2;
+    return rows.map(([left, right]) => `  ${left.padEnd(width)}${right}`);
+}
+
+function formatHelp(command?: CommandName): string {
+    const formatOptions = (names: string[]) => formatColumns(names.map(name => {
+        const option = OPTIONS[name];
+        const flag = `${option.short ? `-${option.short}, ` : '    '}--${name}${option.value ? ` <${option.value}>` : ''}`;
+        return [flag, option.description];
+    }));
+
+    const definition = COMMANDS.find(c => c.name === command);
+    if (definition) {
+        return [
+            `Usage: gen-from ${definition.usage} [options]`,
+            '',
+            definition.description,
+            '',
+            'Options:',
+            ...formatOptions([...definition.options, ...GLOBAL_OPTIONS])
+        ].join('\n');
+    }
+
+    return [
+        'Usage: gen-from [command] [options]',
+        '',
+        'Commands:',
+        ...formatColumns(COMMANDS.map(c => [c.usage, c.description])),
+        '',
+        'Options:',
+        ...formatOptions([...COMMANDS[0].options, ...GLOBAL_OPTIONS]),
+        '',
+        'Run "gen-from <command> --help" for the options of a command.'
+    ].join('\n');
+}
+
+export {
+    parseCliArgs,
+    formatHelp
+};
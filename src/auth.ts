@@ -0,0 +1,105 @@
+import {execFile} from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import {getUserConfigDir} from './config';
+import type {RegistryOptions} from './config';
+
+export const AUTH_FILE = 'auth.json';
+
+export interface AuthOptions extends RegistryOptions {
+    // Ask the GitHub CLI with `gh auth token` when nothing else has a token, on by default
+    gh?: boolean;
+}
+
+export interface Token {
+    value: string;
+    // Where the token came from, for error messages: never print the token itself
+    from: string;
+}
+
+const TOKEN_ENV_VARS: Record<string, string[]> = {
+    'github.com': ['GITHUB_TOKEN', 'GH_TOKEN'],
+    'gitlab.com': ['GITLAB_TOKEN'],
+    'bitbucket.org': ['BITBUCKET_TOKEN']
+};
+
+// Self-hosted GitHub uses the same variables as the GitHub CLI
+const ENTERPRISE_ENV_VARS = ['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN'];
+
+function getAuthFilePath(options: RegistryOptions = {}): string {
+    return path.join(getUserConfigDir(options), AUTH_FILE);
+}
+
+function runGhAuthToken(host: string, env: NodeJS.ProcessEnv): Promise<string | null> {
+    return new Promise(resolve => {
+        execFile('gh', ['auth', 'token', '--hostname', host], {env, timeout: 5000}, (error, stdout) => {
+            resolve(error ? null : stdout.trim() || null);
+        });
+    });
+}
+
+/**
+ * Find a token for a template host: environment variables first, then the `tokens` map of
+ * ~/.config/gen-from/auth.json, then `gh auth token` for GitHub hosts.
+ */
+async function resolveToken(type: string, host: string, options: AuthOptions = {}): Promise<Token | null> {
+    const env = options.env ?? process.env;
+    const envVars = TOKEN_ENV_VARS[host] ?? (type === 'github' ? ENTERPRISE_ENV_VARS : []);
+
+    for (const name of envVars) {
+        if (env[name]) {
+            return {value: env[name]!, from: name};
+        }
+    }
+
+    const authFile = getAuthFilePath(options);
+    if (await fs.pathExists(authFile)) {
+        let tokens: unknown;
+        try {
+            tokens = (await fs.readJson(authFile)).tokens;
+        } catch (error) {
+            throw new Error(`Could not read "${authFile}": ${error instanceof Error ? error.message : error}`);
+        }
+        const value = tokens && typeof tokens === 'object' ? (tokens as Record<string, unknown>)[host] : undefined;
+        if (typeof value === 'string' && value) {
+            return {value, from: authFile};
+        }
+    }
+
+    if (type === 'github' && options.gh !== false) {
+        const value = await runGhAuthToken(host, env);
+        if (value) {
+            return {value, from: 'gh auth token'};
+        }
+    }
+
+    return null;
+}
+
+function getAuthHeaders(type: string, token: Token | null): Record<string, string> {
+    if (!token) {
+        return {};
+    }
+    // GitLab personal access tokens are not bearer tokens
+    return type === 'gitlab' ? {'PRIVATE-TOKEN': token.value} : {Authorization: `Bearer ${token.value}`};
+}
+
+/**
+ * How to give gen-from a token for `host`, for errors about private repositories and rate limits.
+ */
+function describeTokenSources(type: string, host: string): string {
+    const envVars = TOKEN_ENV_VARS[host] ?? (type === 'github' ? ENTERPRISE_ENV_VARS : []);
+    const ways = [
+        ...(envVars.length > 0 ? [`set ${envVars.join(' or ')}`] : []),
+        `add a token for ${host} to ${getAuthFilePath()}`,
+        ...(type === 'github' ? ['run "gh auth login"'] : [])
+    ];
+    return ways.length > 1 ? `${ways.slice(0, -1).join(', ')} or ${ways[ways.length - 1]}` : ways[0];
+}
+
+export {
+    getAuthFilePath,
+    resolveToken,
+    getAuthHeaders,
+    describeTokenSources
+};
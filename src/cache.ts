@@ -0,0 +1,122 @@
+import {createHash} from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export const CACHE_ENV_VAR = 'GEN_FROM_CACHE_DIR';
+
+export interface CacheOptions {
+    env?: NodeJS.ProcessEnv;
+    homeDir?: string;
+}
+
+export interface CacheEntry {
+    // Template source as describeSource() prints it, ref included
+    source: string;
+    // Commit the files were downloaded at
+    version: string;
+    fetchedAt: string;
+    // Directory holding the template files
+    filesDir: string;
+}
+
+const ENTRY_FILE = 'entry.json';
+
+function getCacheDir(options: CacheOptions = {}): string {
+    const env = options.env ?? process.env;
+    if (env[CACHE_ENV_VAR]) {
+        return path.resolve(env[CACHE_ENV_VAR]!);
+    }
+    const base = env.XDG_CACHE_HOME || path.join(options.homeDir ?? os.homedir(), '.cache');
+    return path.join(base, 'gen-from');
+}
+
+// One directory per source and ref, hashed so any host, subdir or ref makes a valid name
+function getEntryDir(cacheDir: string, source: string): string {
+    return path.join(cacheDir, 'templates', createHash('sha256').update(source).digest('hex').slice(0, 16));
+}
+
+async function readEntry(entryDir: string): Promise<CacheEntry | null> {
+    try {
+        const {source, version, fetchedAt} = await fs.readJson(path.join(entryDir, ENTRY_FILE));
+        const filesDir = path.join(entryDir, 'files');
+        if (typeof source !== 'string' || typeof version !== 'string' || !await fs.pathExists(filesDir)) {
+            return null;
+        }
+        return {source, version, fetchedAt: String(fetchedAt), filesDir};
+    } catch {
+        // A missing or half-written entry is the same as no entry
+        return null;
+    }
+}
+
+async function readCacheEntry(cacheDir: string, source: string): Promise<CacheEntry | null> {
+    const entry = await readEntry(getEntryDir(cacheDir, source));
+    return entry?.source === source ? entry : null;
+}
+
+/**
+ * Replace the cached files of `source` with what `fill` writes into an empty directory.
+ * The previous copy is only removed once `fill` succeeded, so a failed download keeps it.
+ */
+async function writeCacheEntry(cacheDir: string, source: string, version: string, fill: (dir: string) => Promise<void>): Promise<CacheEntry> {
+    const entryDir = getEntryDir(cacheDir, source);
+    await fs.ensureDir(path.dirname(entryDir));
+    const tempDir = await fs.mkdtemp(`${entryDir}.tmp-`);
+
+    try {
+        await fill(path.join(tempDir, 'files'));
+        await fs.ensureDir(path.join(tempDir, 'files'));
+        await fs.writeJson(path.join(tempDir, ENTRY_FILE), {source, version, fetchedAt: new Date().toISOString()}, {spaces: 2});
+        await fs.remove(entryDir);
+        await fs.rename(tempDir, entryDir);
+    } catch (error) {
+        await fs.remove(tempDir);
+        throw error;
+    }
+
+    return (await readEntry(entryDir))!;
+}
+
+async function listCacheEntries(cacheDir: string): Promise<CacheEntry[]> {
+    const templatesDir = path.join(cacheDir, 'templates');
+    if (!await fs.pathExists(templatesDir)) {
+        return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const name of await fs.readdir(templatesDir)) {
+        const entry = name.includes('.tmp-') ? null : await readEntry(path.join(templatesDir, name));
+        if (entry) {
+            entries.push(entry);
+        }
+    }
+    return entries.sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * Remove cached templates, all of them or those `matches` selects.
+ * Returns the removed entries.
+ */
+async function clearCache(cacheDir: string, matches?: (entry: CacheEntry) => boolean): Promise<CacheEntry[]> {
+    const entries = await listCacheEntries(cacheDir);
+    if (!matches) {
+        // Also takes leftovers of interrupted downloads
+        await fs.remove(path.join(cacheDir, 'templates'));
+        return entries;
+    }
+
+    const removed = entries.filter(matches);
+    for (const entry of removed) {
+        await fs.remove(path.dirname(entry.filesDir));
+    }
+    return removed;
+}
+
+export {
+    getCacheDir,
+    readCacheEntry,
+    writeCacheEntry,
+    listCacheEntries,
+    clearCache
+};
@@ -4,557 +4,620 @@ import prompts from 'prompts';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
-import {fileURLToPath} from 'url';
-import degit from 'tiged';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-interface Template {
-    name: string;
-    description: string;
-    repo: string;
-}
-
-interface Placeholder {
-    key: string;
-    prompt: string;
-    default: string;
-    required: boolean;
-}
-
-interface Config {
-    templates: Template[];
-    placeholders: Placeholder[];
-}
-
-interface UserInputs {
-    [key: string]: string;
-}
-
-interface PlaceholderStats {
-    [key: string]: {
-        count: number;
-        replacement: string;
-    };
-}
+import {formatHelp, parseCliArgs, UsageError} from './args';
+import type {ParsedArgs} from './args';
+import {clearCache, getCacheDir, listCacheEntries} from './cache';
+import type {CacheEntry} from './cache';
+import {addUserTemplate, getUserRegistryPath, loadConfig, removeUserTemplate} from './config';
+import {printEvent} from './events';
+import type {GenerateEvent} from './events';
+import {fetchTemplate, findTemplate, generate, PACKAGE_DIR, renderTemplate} from './generate';
+import {getNextSteps} from './hooks';
+import {collectInputs, resolvePresetInputs} from './inputs';
+import {lintTemplate, printLintIssues} from './lint';
+import {createGenerationRecord, LOCKFILE, readLockfile, writeLockfile} from './lockfile';
+import {mergePlaceholders} from './manifest';
+import {filterByTags, getCategory, rankTemplates, readRecentTemplates, recordRecentTemplate} from './picker';
+import {ConflictError, printWriteSummary} from './merge';
+import type {ConflictResolution} from './merge';
+import {colorizeDiff, printDryRun} from './preview';
+import type {FileChange} from './preview';
+import {printSnapshotResults, resolveFixtures, testTemplate} from './snapshot';
+import {describeSource, parseTemplateSource} from './sources';
+import type {DownloadOptions} from './sources';
+import {CancelledError} from './transaction';
+import type {Config, InputOptions, Placeholder, Template} from './types';
+import {applyUpdate, planUpdate, printUpdateReport} from './update';
 
 async function main() {
     // Load package.json for version and description
-    const pkg = await fs.readJson(path.join(__dirname, '..', 'package.json'));
+    const pkg = await fs.readJson(path.join(PACKAGE_DIR, 'package.json'));
 
     console.log(chalk.cyan(`🚀 Welcome to gen-from v${pkg.version}!`));
     console.log(chalk.dim(`${pkg.description}\n`));
 
     try {
         // Parse command line arguments
-        const args = process.argv.slice(2);
+        const args = parseCliArgs(process.argv.slice(2));
 
         // Handle version command
-        if (args.includes('--version') || args.includes('-v')) {
+        if (args.version) {
             console.log(pkg.version);
             process.exit(0);
         }
 
-        const templateArg = args[0];
-        const isHereFlag = args.includes('--here');
+        if (args.help) {
+            console.log(formatHelp(args.explicitCommand ? args.command : undefined));
+            process.exit(0);
+        }
 
         // Load config
-        const config = await loadConfig();
-
-        // Select template
-        const selectedTemplate = await selectTemplate(config.templates, templateArg);
-        if (!selectedTemplate) {
-            console.log(chalk.red('❌ Template selection cancelled'));
-            process.exit(1);
+        const config = await loadConfig(PACKAGE_DIR);
+
+        switch (args.command) {
+            case 'list':
+                listTemplates(config.templates, args.tags);
+                break;
+            case 'info':
+                await showTemplateInfo(config, args.positionals[0], args);
+                break;
+            case 'validate':
+                await validateTemplateCommand(config, args.positionals[0], args);
+                break;
+            case 'template':
+                await manageUserTemplates(args);
+                break;
+            case 'cache':
+                await manageCache(config, args);
+                break;
+            case 'update':
+                await updateProject(config, args, pkg.version);
+                break;
+            case 'lint':
+                await lintTemplateCommand(config, args.positionals[0] ?? '.');
+                break;
+            case 'test':
+                await testTemplateCommand(config, args);
+                break;
+            default:
+                await generateProject(config, args);
         }
 
-        // Validate template exists
-        console.log(chalk.dim(`Checking template: ${selectedTemplate.repo}...`));
-        await validateTemplate(selectedTemplate.repo);
-
-        // Collect user inputs
-        const userInputs = await collectInputs(config.placeholders);
-        if (!userInputs) {
-            console.log(chalk.red('❌ Setup cancelled'));
+    } catch (error) {
+        if (error instanceof CancelledError) {
+            console.log(chalk.yellow(`❌ ${error.message}`));
             process.exit(1);
         }
-
-        // Ask for package name suggestion
-        const packageName = await suggestPackageName(userInputs.USERNAME, userInputs.PROJECT_NAME);
-        if (!packageName) {
-            console.log(chalk.red('❌ Setup cancelled'));
-            process.exit(1);
+        console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : error);
+        if (error instanceof UsageError) {
+            console.error(chalk.dim('Run "gen-from --help" for usage.'));
         }
-        userInputs.PACKAGE_NAME = packageName;
-
-        // Determine target directory
-        const targetDir = isHereFlag ? '.' : userInputs.PROJECT_NAME;
-
-        // Check for existing files and prompt for replacement
-        if (!isHereFlag && await fs.pathExists(targetDir)) {
-            const shouldReplace = await promptForReplacement(targetDir);
-            if (!shouldReplace) {
-                console.log(chalk.yellow('❌ Operation cancelled'));
-                process.exit(0);
-            }
-        } else if (isHereFlag) {
-            const hasFiles = await hasExistingFiles('.');
-            if (hasFiles) {
-                const shouldReplace = await promptForReplacement('.', true);
-                if (!shouldReplace) {
-                    console.log(chalk.yellow('❌ Operation cancelled'));
-                    process.exit(0);
-                }
-            }
+        if (error instanceof ConflictError) {
+            console.error(chalk.dim('Pass --on-conflict=skip or --on-conflict=overwrite to decide without prompting'));
         }
+        process.exit(1);
+    }
+}
 
-        // Download template
-        await downloadTemplate(selectedTemplate.repo, targetDir);
+async function generateProject(config: Config, args: ParsedArgs): Promise<void> {
+    // Ctrl+C outside of a prompt cancels at the next step, anything written so far is rolled back.
+    // Once written, it stops the post-generation steps instead
+    const controller = new AbortController();
+    const onInterrupt = () => {
+        if (controller.signal.aborted) {
+            // A second Ctrl+C does not wait for the cleanup
+            process.exit(130);
+        }
+        console.log(chalk.yellow('\nCancelling, press Ctrl+C again to quit immediately...'));
+        controller.abort(new CancelledError('Generation cancelled, the target directory was left unchanged'));
+    };
 
-        // Process files
-        await processFiles(targetDir, userInputs);
+    process.on('SIGINT', onInterrupt);
+    try {
+        await runGeneration(config, args, controller.signal);
+    } finally {
+        process.off('SIGINT', onInterrupt);
+    }
+}
 
-        // Success
-        console.log(chalk.green('✅ Project generated successfully!'));
-        console.log(`\n${chalk.yellow('Next steps:')}`);
+async function runGeneration(config: Config, args: ParsedArgs, signal: AbortSignal): Promise<void> {
+    const [templateArg, dirArg] = args.positionals;
+    const isHereFlag = args.here;
 
-        if (isHereFlag) {
-            console.log('  pnpm install');
-        } else {
-            console.log(`  cd ${userInputs.PROJECT_NAME}`);
-            console.log('  pnpm install');
-        }
+    if (isHereFlag && dirArg) {
+        throw new UsageError('Use either --here or a target directory, not both');
+    }
 
-        console.log('  pnpm build');
-        console.log('  pnpm test\n');
+    const inputOptions: InputOptions = {
+        presets: await resolvePresetInputs({answersFile: args.answersFile, vars: args.vars}),
+        yes: args.yes,
+        interactive: Boolean(process.stdin.isTTY) && !process.env.CI
+    };
 
-    } catch (error) {
-        console.error(chalk.red('❌ Error:'), error instanceof Error ? error.message : error);
-        process.exit(1);
+    // Select template
+    const selectedTemplate = await selectTemplate(config.templates, templateArg, inputOptions, template => previewTemplate(config, template, args));
+    if (!selectedTemplate) {
+        throw new CancelledError('Template selection cancelled');
     }
-}
 
-async function loadConfig(): Promise<Config> {
-    const templatesPath = path.join(__dirname, '..', 'templates.json');
-    const placeholdersPath = path.join(__dirname, '..', 'placeholders.json');
+    // --yes keeps its old meaning of overwriting existing files, without a terminal conflicts fail
+    const policy = args.onConflict ?? (args.yes ? 'overwrite' : 'prompt');
+    const result = await generate({
+        template: templateArg ?? selectedTemplate.name,
+        layers: args.with,
+        target: isHereFlag ? '.' : dirArg,
+        answers: inputOptions.presets,
+        useDefaults: args.yes,
+        interactive: inputOptions.interactive,
+        onConflict: policy !== 'prompt' ? policy : inputOptions.interactive ? promptForConflict : undefined,
+        dryRun: args.dryRun,
+        install: args.install,
+        git: args.git,
+        scripts: args.scripts,
+        confirmCommands: () => confirmTemplateCommands(args.scripts, inputOptions),
+        inheritOutput: true,
+        offline: args.offline,
+        refresh: args.refresh,
+        config,
+        signal,
+        onEvent: reportEvent
+    });
 
-    if (!await fs.pathExists(templatesPath)) {
-        throw new Error('Templates configuration file not found');
+    const {targetDir} = result;
+    if (args.dryRun) {
+        printDryRun(result.files, targetDir);
+        return;
     }
 
-    if (!await fs.pathExists(placeholdersPath)) {
-        throw new Error('Placeholders configuration file not found');
+    // Registry templates are listed first in the picker next time, losing the history is not worth failing for
+    if (config.templates.some(template => template.name === selectedTemplate.name)) {
+        await recordRecentTemplate(selectedTemplate.name).catch(() => undefined);
     }
 
-    const templates = await fs.readJson(templatesPath);
-    const placeholders = await fs.readJson(placeholdersPath);
+    if (result.messages.length > 0) {
+        console.log('');
+        for (const message of result.messages) {
+            console.log(`  ${message}`);
+        }
+    }
 
-    return {
-        templates,
-        placeholders
-    };
-}
+    const installed = result.hooks.some(hook => hook.kind === 'install' && hook.status === 'done');
+    const nextSteps = [
+        ...(path.resolve(targetDir) === process.cwd() ? [] : [`cd ${targetDir}`]),
+        ...await getNextSteps(targetDir, installed)
+    ];
 
-async function selectTemplate(templates: Template[], templateArg?: string): Promise<Template | null> {
-    if (templateArg) {
-        // Check if it's a user/repo format or just repo name
-        let repoPath: string;
-        if (templateArg.includes('/')) {
-            repoPath = templateArg;
-        } else {
-            // Default to phucbm/ prefix for backward compatibility
-            repoPath = `phucbm/${templateArg}`;
+    if (nextSteps.length > 0) {
+        console.log(`\n${chalk.yellow('Next steps:')}`);
+        for (const command of nextSteps) {
+            console.log(`  ${command}`);
         }
+        console.log('');
+    }
+}
 
-        // Try to find in templates list first
-        const found = templates.find(t => t.name === templateArg || t.repo === templateArg || t.repo === repoPath);
-        if (found) {
-            return found;
-        }
+// Print progress like the library modules do, with the success message once the project is written
+function reportEvent(event: GenerateEvent): void {
+    if (event.type !== 'written') {
+        printEvent(event);
+        return;
+    }
 
-        // If not in templates list, create a template object for the repo
-        return {
-            name: templateArg,
-            description: `Template from ${repoPath}`,
-            repo: repoPath
-        };
+    console.log(chalk.green('✅ Project generated successfully!'));
+    printWriteSummary(event.summary);
+    if (event.record) {
+        const recorded = (event.record.layers ?? [event.record.template])
+            .map(({source, commit}) => `${source}${commit ? ` at ${commit.slice(0, 7)}` : ''}`);
+        console.log(chalk.dim(`Recorded ${recorded.join(', ')} in ${LOCKFILE}`));
+    }
+}
+
+function listTemplates(templates: Template[], tags: string[] = []): void {
+    const listed = filterByTags(templates, tags);
+    if (listed.length === 0) {
+        console.log(chalk.dim(tags.length > 0 ? `No templates tagged ${tags.join(', ')}` : 'No templates configured'));
+        return;
     }
 
-    // Show template selection
     console.log(chalk.yellow('Available templates:'));
 
-    const choices = templates.map(template => ({
-        title: `${template.name} - ${chalk.dim(template.description)}`,
-        value: template
-    }));
+    const width = Math.max(...listed.map(t => t.name.length));
+    const printTemplate = (template: Template, indent: string) => {
+        const tagList = template.tags?.length ? chalk.dim(` [${template.tags.join(', ')}]`) : '';
+        console.log(`${indent}${chalk.cyan(template.name.padEnd(width))}  ${template.description} ${chalk.dim(`(${template.repo})`)}${tagList}`);
+    };
 
-    const response = await prompts({
-        type: 'select',
-        name: 'template',
-        message: 'Select a template:',
-        choices,
-        initial: 0
-    });
+    // Without tags there is nothing to group by
+    if (!listed.some(getCategory)) {
+        listed.forEach(template => printTemplate(template, '  '));
+        return;
+    }
 
-    return response.template || null;
+    // Same order as the picker, untagged templates last
+    let previous: string | undefined;
+    for (const template of rankTemplates(listed)) {
+        const category = getCategory(template) ?? 'other';
+        if (category !== previous) {
+            console.log(`\n  ${chalk.yellow(category)}`);
+            previous = category;
+        }
+        printTemplate(template, '    ');
+    }
 }
 
-async function validateTemplate(repoName: string): Promise<void> {
-    // Check if GitHub repo exists by trying to access it
-    const response = await fetch(`https://api.github.com/repos/${repoName}`);
+async function showTemplateInfo(config: Config, templateArg: string, options: DownloadOptions): Promise<void> {
+    const template = await selectTemplate(config.templates, templateArg);
+    if (!template) {
+        return;
+    }
 
-    if (!response.ok) {
-        if (response.status === 404) {
-            throw new Error(`Template repository "${repoName}" not found on GitHub`);
-        } else {
-            throw new Error(`Failed to verify template repository: ${response.statusText}`);
-        }
+    const {stagingDir, manifest} = await fetchTemplate(template, options);
+
+    try {
+        printTemplateDetails(template, mergePlaceholders(config.placeholders, manifest.placeholders));
+    } finally {
+        await fs.remove(stagingDir);
     }
 }
 
-async function collectInputs(placeholders: Placeholder[]): Promise<UserInputs | null> {
-    console.log(chalk.yellow('\nProvide project information:'));
-
-    const questions = placeholders.map(placeholder => ({
-        type: 'text' as const,
-        name: placeholder.key,
-        message: placeholder.prompt,
-        initial: placeholder.default,
-        validate: (value: string) => {
-            if (placeholder.required && !value.trim()) {
-                return `${placeholder.key} is required`;
-            }
-            return true;
-        }
-    }));
-
-    const response = await prompts(questions);
+// Placeholders are null when the template could not be fetched
+function printTemplateDetails(template: Template, placeholders: Placeholder[] | null): void {
+    console.log('');
+    console.log(`${chalk.yellow('Template:')}    ${template.name}`);
+    console.log(`${chalk.yellow('Repository:')}  ${template.repo}`);
+    console.log(`${chalk.yellow('Description:')} ${template.description}`);
+    if (template.tags?.length) {
+        console.log(`${chalk.yellow('Tags:')}        ${template.tags.join(', ')}`);
+    }
+    if (template.extends) {
+        console.log(`${chalk.yellow('Extends:')}     ${template.extends}`);
+    }
+    if (template.layers?.length) {
+        console.log(`${chalk.yellow('Layers:')}      ${template.layers.join(', ')}`);
+    }
+    if (!placeholders) {
+        return;
+    }
 
-    // Check if user cancelled (any required field is undefined)
+    console.log(chalk.yellow('\nPlaceholders:'));
     for (const placeholder of placeholders) {
-        if (placeholder.required && response[placeholder.key] === undefined) {
-            return null;
-        }
+        const details = [
+            placeholder.required ? 'required' : 'optional',
+            placeholder.default ? `default "${placeholder.default}"` : ''
+        ].filter(Boolean).join(', ');
+        console.log(`  ${chalk.cyan(placeholder.key)} - ${placeholder.prompt} ${chalk.dim(`(${details})`)}`);
     }
-
-    return response;
 }
 
-async function suggestPackageName(username: string, projectName: string): Promise<string | null> {
-    const suggestions = [
-        projectName,
-        `@${username}/${projectName}`,
-        'Use different name'
-    ];
+/**
+ * Show what a template picked in the picker asks for before it is used. The download goes through
+ * the cache, so generating from it afterwards does not download it again.
+ */
+async function previewTemplate(config: Config, template: Template, options: DownloadOptions): Promise<boolean> {
+    let placeholders: Placeholder[] | null = null;
+    try {
+        const {stagingDir, manifest} = await fetchTemplate(template, {offline: options.offline, refresh: options.refresh, onEvent: () => undefined});
+        await fs.remove(stagingDir);
+        placeholders = mergePlaceholders(config.placeholders, manifest.placeholders);
+    } catch (error) {
+        console.log(chalk.dim(`Could not fetch ${template.name} to show its placeholders: ${error instanceof Error ? error.message : error}`));
+    }
 
-    const choices = suggestions.map((suggestion, index) => ({
-        title: index === 2 ? chalk.dim(suggestion) : suggestion,
-        value: suggestion
-    }));
+    printTemplateDetails(template, placeholders);
+    console.log('');
 
     const response = await prompts({
-        type: 'select',
-        name: 'packageName',
-        message: 'Choose package name:',
-        choices,
-        initial: 1 // Default to @username/project-name
+        type: 'confirm',
+        name: 'use',
+        message: `Use ${template.name}?`,
+        initial: true
     });
 
-    if (!response.packageName) {
-        return null;
-    }
-
-    if (response.packageName === 'Use different name') {
-        const customResponse = await prompts({
-            type: 'text',
-            name: 'customPackageName',
-            message: 'Enter package name:',
-            initial: `@${username}/${projectName}`,
-            validate: (value: string) => {
-                if (!value.trim()) {
-                    return 'Package name is required';
-                }
-                return true;
-            }
-        });
+    return response.use ?? false;
+}
 
-        return customResponse.customPackageName || null;
+async function validateTemplateCommand(config: Config, templateArg: string, options: DownloadOptions): Promise<void> {
+    const template = await selectTemplate(config.templates, templateArg);
+    if (!template) {
+        return;
     }
 
-    return response.packageName;
-}
+    // Fetching also parses gen-from.json, which throws when the manifest is malformed
+    const {stagingDir} = await fetchTemplate(template, options);
+    await fs.remove(stagingDir);
 
-async function downloadTemplate(repoName: string, targetDir: string): Promise<void> {
-    console.log(chalk.dim(`\nDownloading template from ${repoName}...`));
+    console.log(chalk.green(`✅ Template "${template.name}" is valid`));
+}
 
-    const emitter = degit(repoName, {
-        cache: false,
-        force: true,
-        verbose: false
-    });
+async function lintTemplateCommand(config: Config, templateDir: string): Promise<void> {
+    if (!await isDirectory(templateDir)) {
+        throw new Error(`Template directory "${templateDir}" not found`);
+    }
 
-    try {
-        await emitter.clone(targetDir);
-        console.log(chalk.green('✓ Template downloaded'));
-    } catch (error) {
-        throw new Error(`Failed to download template: ${error instanceof Error ? error.message : error}`);
+    const issues = await lintTemplate(templateDir, config.placeholders);
+    printLintIssues(issues);
+    if (issues.some(issue => issue.severity === 'error')) {
+        throw new Error(`Template "${templateDir}" has problems to fix before it is published`);
     }
 }
 
-async function processFiles(targetDir: string, userInputs: UserInputs): Promise<void> {
-    console.log(chalk.dim('\nProcessing template files...'));
-
-    // Get all files recursively
-    const files = await getAllFiles(targetDir);
-
-    // First pass: count placeholders across all files
-    const placeholderStats: PlaceholderStats = {};
-
-    for (const [key, value] of Object.entries(userInputs)) {
-        placeholderStats[key] = {
-            count: 0,
-            replacement: value
-        };
-    }
-
-    // Count placeholders in all files
-    for (const filePath of files) {
-        if (!isBinaryFile(filePath)) {
-            try {
-                const content = await fs.readFile(filePath, 'utf-8');
-                for (const key of Object.keys(userInputs)) {
-                    // Search for the exact key
-                    const matches = content.match(new RegExp(key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'));
-                    if (matches) {
-                        placeholderStats[key].count += matches.length;
-                    }
-                }
-            } catch (error) {
-                // Skip files that can't be read
-            }
-        }
+async function testTemplateCommand(config: Config, args: ParsedArgs): Promise<void> {
+    const [templateDir, ...answersFiles] = args.positionals;
+    if (!await isDirectory(templateDir)) {
+        throw new Error(`Template directory "${templateDir}" not found`);
     }
 
-    // Show placeholder replacement summary
-    console.log(chalk.yellow('\nPlaceholder replacement summary:'));
-    let hasReplacements = false;
-
-    for (const [key, stats] of Object.entries(placeholderStats)) {
-        if (stats.count > 0) {
-            console.log(chalk.cyan(`  ${key}`) + chalk.dim(` => Found ${stats.count} occurrence${stats.count === 1 ? '' : 's'} => Replacing with `) + chalk.green(`"${stats.replacement}"`));
-            hasReplacements = true;
-        }
+    const patterns = [...args.answersFile ? [args.answersFile] : [], ...answersFiles];
+    if (patterns.length === 0) {
+        throw new UsageError('Pass the answers files to render the template with, e.g. --answers \'fixtures/*.json\'');
     }
 
-    if (!hasReplacements) {
-        console.log(chalk.dim('  No placeholders found in template files'));
+    const results = await testTemplate(templateDir, await resolveFixtures(patterns), {
+        placeholders: config.placeholders,
+        update: args.updateSnapshots
+    });
+    printSnapshotResults(results);
+    if (results.some(result => result.status === 'failed')) {
+        throw new Error('Snapshots differ, run again with --update-snapshots if the changes are expected');
     }
+}
 
-    console.log(''); // Empty line for spacing
+async function isDirectory(dir: string): Promise<boolean> {
+    return await fs.pathExists(dir) && (await fs.stat(dir)).isDirectory();
+}
 
-    // Second pass: actually replace the placeholders
-    let filesProcessed = 0;
-    for (const filePath of files) {
-        const wasModified = await processFile(filePath, userInputs);
-        if (wasModified) {
-            filesProcessed++;
-        }
+/**
+ * Move a generated project to a newer template version: render the version it was generated from
+ * and the new one with the recorded answers, and merge the difference into the project.
+ */
+async function updateProject(config: Config, args: ParsedArgs, version: string): Promise<void> {
+    const projectDir = args.positionals[0] ?? '.';
+    const record = await readLockfile(projectDir);
+    if (!record) {
+        throw new Error(`No ${LOCKFILE} in ${path.resolve(projectDir)}, only projects generated with a record can be updated`);
     }
-
-    if (hasReplacements && filesProcessed > 0) {
-        console.log(chalk.green(`✓ ${filesProcessed} file${filesProcessed === 1 ? '' : 's'} processed`));
-    } else {
-        console.log(chalk.green('✓ Template files copied'));
+    if (record.layers) {
+        throw new Error(`The project was generated from ${record.layers.map(layer => layer.name).join(' + ')}, update only supports projects generated from a single template`);
+    }
+    if (!record.template.commit) {
+        throw new Error(`${record.template.source} is a local template, there is no recorded commit to update from`);
     }
-}
 
-async function getAllFiles(dir: string): Promise<string[]> {
-    const files: string[] = [];
+    const source = parseTemplateSource(record.template.source);
+    const nextSpec = describeSource(args.to ? {...source, ref: args.to} : source);
+    const bareKeys = config.templates.find(template => template.name === record.template.name)?.bareKeys;
+    const inputOptions: InputOptions = {
+        // --var and --answers change recorded answers, secrets are asked again
+        presets: {...record.answers, ...await resolvePresetInputs({answersFile: args.answersFile, vars: args.vars})},
+        yes: args.yes,
+        interactive: Boolean(process.stdin.isTTY) && !process.env.CI
+    };
 
-    async function scan(currentDir: string) {
-        const items = await fs.readdir(currentDir);
+    const next = await fetchTemplate({name: record.template.name, description: '', repo: nextSpec, bareKeys}, args);
+    try {
+        if (next.commit === record.template.commit) {
+            console.log(chalk.green(`✅ Already up to date with ${nextSpec} at ${next.commit.slice(0, 7)}`));
+            if (source.ref && !args.to) {
+                console.log(chalk.dim(`The project is pinned to ${source.ref}, pass --to <ref> to move to another branch, tag or commit`));
+            }
+            return;
+        }
 
-        for (const item of items) {
-            const fullPath = path.join(currentDir, item);
-            const stat = await fs.stat(fullPath);
+        // The recorded commit never changes, so the cached copy is always good
+        const baseSpec = describeSource({...source, ref: record.template.commit});
+        const base = await fetchTemplate({name: record.template.name, description: '', repo: baseSpec, bareKeys}, {offline: args.offline});
+        try {
+            const placeholders = mergePlaceholders(config.placeholders, next.manifest.placeholders);
+            const nextInputs = await collectInputs(placeholders, inputOptions);
+            if (!nextInputs) {
+                throw new CancelledError('Update cancelled');
+            }
+            // The old version is rendered with the answers it was generated with
+            const baseInputs = await collectInputs(mergePlaceholders(config.placeholders, base.manifest.placeholders), {
+                ...inputOptions,
+                presets: {...nextInputs, ...record.answers}
+            });
+            if (!baseInputs) {
+                throw new CancelledError('Update cancelled');
+            }
 
-            if (stat.isDirectory()) {
-                // Skip node_modules and .git directories
-                if (item !== 'node_modules' && item !== '.git') {
-                    await scan(fullPath);
+            // The update report replaces the placeholder summaries, only warnings about the new version are shown
+            const basePaths = (await renderTemplate(base.stagingDir, base.manifest, baseInputs, () => undefined)).map(report => report.path);
+            const nextPaths = (await renderTemplate(next.stagingDir, next.manifest, nextInputs, event => {
+                if (event.type === 'warning') {
+                    printEvent(event);
                 }
-            } else {
-                files.push(fullPath);
+            })).map(report => report.path);
+            const changes = await planUpdate(
+                {dir: base.stagingDir, paths: basePaths},
+                {dir: next.stagingDir, paths: nextPaths},
+                projectDir,
+                {ours: 'project', theirs: `template ${next.commit!.slice(0, 7)}`}
+            );
+
+            const range = `${record.template.commit.slice(0, 7)}..${next.commit!.slice(0, 7)}`;
+            if (args.dryRun) {
+                console.log(chalk.yellow(`Dry run, changes from ${nextSpec} ${range} that would be applied:`));
+                printUpdateReport(changes);
+                return;
             }
+
+            await applyUpdate(changes, next.stagingDir, projectDir);
+            await writeLockfile(projectDir, createGenerationRecord({
+                name: record.template.name,
+                source: nextSpec,
+                commit: next.commit
+            }, version, placeholders, nextInputs));
+
+            console.log(chalk.green(`✅ Project updated to ${nextSpec} (${range})`));
+            printUpdateReport(changes);
+        } finally {
+            await fs.remove(base.stagingDir);
         }
+    } finally {
+        await fs.remove(next.stagingDir);
     }
-
-    await scan(dir);
-    return files;
 }
 
-async function processFile(filePath: string, userInputs: UserInputs): Promise<boolean> {
-    try {
-        // Skip binary files
-        if (isBinaryFile(filePath)) {
-            return false;
+async function manageUserTemplates(args: ParsedArgs): Promise<void> {
+    const [action, name, repo] = args.positionals;
+    const registryPath = getUserRegistryPath();
+
+    if (action === 'add') {
+        if (!repo) {
+            throw new UsageError('Missing repository, usage: gen-from template add <name> <repo>');
         }
 
-        let content = await fs.readFile(filePath, 'utf-8');
-        let hasChanges = false;
+        const replaced = await addUserTemplate({
+            name,
+            description: args.description ?? `Template from ${repo}`,
+            repo,
+            ...args.tags.length > 0 ? {tags: args.tags} : {}
+        });
+        console.log(chalk.green(`✅ Template "${name}" ${replaced ? 'updated' : 'added'} in ${registryPath}`));
+    } else if (action === 'remove') {
+        if (repo) {
+            throw new UsageError(`Unexpected argument "${repo}", usage: gen-from template remove <name>`);
+        }
 
-        // Special handling for package.json
-        if (path.basename(filePath) === 'package.json') {
-            try {
-                const packageJson = JSON.parse(content);
+        if (!await removeUserTemplate(name)) {
+            throw new Error(`Template "${name}" is not in ${registryPath}`);
+        }
+        console.log(chalk.green(`✅ Template "${name}" removed from ${registryPath}`));
+    } else {
+        throw new UsageError(`Unknown template action "${action}", expected "add" or "remove"`);
+    }
+}
 
-                // Replace package name
-                if (userInputs.PACKAGE_NAME) {
-                    packageJson.name = userInputs.PACKAGE_NAME;
-                    hasChanges = true;
-                }
+async function manageCache(config: Config, args: ParsedArgs): Promise<void> {
+    const [action, templateArg] = args.positionals;
+    const cacheDir = getCacheDir();
 
-                // Update author fields only if they exist and we have values
-                if (packageJson.author && typeof packageJson.author === 'object') {
-                    if (userInputs.AUTHOR_NAME && packageJson.author.name) {
-                        packageJson.author.name = userInputs.AUTHOR_NAME;
-                        hasChanges = true;
-                    }
-                    if (userInputs.USERNAME && packageJson.author.url) {
-                        packageJson.author.url = `https://github.com/${userInputs.USERNAME}`;
-                        hasChanges = true;
-                    }
-                } else if (packageJson.author && typeof packageJson.author === 'string' && userInputs.AUTHOR_NAME) {
-                    packageJson.author = userInputs.AUTHOR_NAME;
-                    hasChanges = true;
-                }
+    if (action === 'list') {
+        if (templateArg) {
+            throw new UsageError(`Unexpected argument "${templateArg}", usage: gen-from cache list`);
+        }
 
-                // Update repository URL only if it exists
-                if (packageJson.repository && userInputs.USERNAME && userInputs.PROJECT_NAME) {
-                    if (typeof packageJson.repository === 'string') {
-                        packageJson.repository = `https://github.com/${userInputs.USERNAME}/${userInputs.PROJECT_NAME}`;
-                        hasChanges = true;
-                    } else if (packageJson.repository.url) {
-                        packageJson.repository.url = `https://github.com/${userInputs.USERNAME}/${userInputs.PROJECT_NAME}`;
-                        hasChanges = true;
-                    }
-                }
+        const entries = await listCacheEntries(cacheDir);
+        if (entries.length === 0) {
+            console.log(chalk.dim(`No cached templates in ${cacheDir}`));
+            return;
+        }
 
-                // Update bugs URL only if it exists
-                if (packageJson.bugs && userInputs.USERNAME && userInputs.PROJECT_NAME) {
-                    if (typeof packageJson.bugs === 'string') {
-                        packageJson.bugs = `https://github.com/${userInputs.USERNAME}/${userInputs.PROJECT_NAME}/issues`;
-                        hasChanges = true;
-                    } else if (packageJson.bugs.url) {
-                        packageJson.bugs.url = `https://github.com/${userInputs.USERNAME}/${userInputs.PROJECT_NAME}/issues`;
-                        hasChanges = true;
-                    }
-                }
+        console.log(chalk.yellow(`Cached templates in ${cacheDir}:`));
+        const width = Math.max(...entries.map(entry => entry.source.length));
+        for (const entry of entries) {
+            console.log(`  ${chalk.cyan(entry.source.padEnd(width))}  ${entry.version.slice(0, 7)} ${chalk.dim(`(downloaded ${entry.fetchedAt.slice(0, 10)})`)}`);
+        }
+    } else if (action === 'clear') {
+        let matches: ((entry: CacheEntry) => boolean) | undefined;
+        const template = templateArg ? await selectTemplate(config.templates, templateArg) : null;
+        if (template) {
+            const source = describeSource(parseTemplateSource(template.repo));
+            // A template without a ref clears every ref of its repository
+            matches = entry => entry.source === source || (!source.includes('#') && entry.source.startsWith(`${source}#`));
+        }
 
-                // Update homepage only if it exists
-                if (packageJson.homepage && userInputs.USERNAME && userInputs.PROJECT_NAME) {
-                    packageJson.homepage = `https://github.com/${userInputs.USERNAME}/${userInputs.PROJECT_NAME}`;
-                    hasChanges = true;
-                }
+        const removed = await clearCache(cacheDir, matches);
+        console.log(chalk.green(`✅ Removed ${removed.length} cached template${removed.length === 1 ? '' : 's'}`));
+    } else {
+        throw new UsageError(`Unknown cache action "${action}", expected "list" or "clear"`);
+    }
+}
 
-                // Update keywords only if they exist - merge instead of replace
-                if (packageJson.keywords && Array.isArray(packageJson.keywords) && userInputs.PROJECT_NAME) {
-                    const newKeywords = [
-                        'typescript',
-                        'javascript',
-                        userInputs.PROJECT_NAME.toLowerCase(),
-                        'utility'
-                    ];
-
-                    // Merge existing keywords with new ones, remove duplicates
-                    packageJson.keywords = [...new Set([...packageJson.keywords, ...newKeywords])];
-                    hasChanges = true;
-                }
+/**
+ * The template to use: the one named, or one picked with fuzzy search over names, descriptions and tags.
+ * `confirm` is asked about the picked template, the picker shows again when it declines.
+ */
+async function selectTemplate(templates: Template[], templateArg?: string, options?: InputOptions, confirm?: (template: Template) => Promise<boolean>): Promise<Template | null> {
+    if (templateArg) {
+        return findTemplate(templates, templateArg);
+    }
 
-                if (hasChanges) {
-                    content = JSON.stringify(packageJson, null, 2);
-                }
+    if (options && (options.yes || !options.interactive)) {
+        throw new Error('No template specified. Pass a template name when running non-interactively');
+    }
 
-            } catch (parseError) {
-                // If JSON parsing fails, fall back to string replacement
-                console.warn(chalk.yellow(`⚠ Warning: Could not parse package.json, using string replacement`));
-            }
-        }
+    const recent = await readRecentTemplates();
+    const toChoice = (template: Template) => ({
+        title: `${template.name} - ${chalk.dim(template.description)}`,
+        description: [
+            getCategory(template),
+            recent.includes(template.name) ? 'recently used' : '',
+            template.repo
+        ].filter(Boolean).join(' · '),
+        value: template.name
+    });
 
-        // Standard string replacement for all files (including non-JSON parts)
-        for (const [key, value] of Object.entries(userInputs)) {
-            if (content.includes(key)) {
-                content = content.replace(new RegExp(key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
-                hasChanges = true;
-            }
-        }
+    for (;;) {
+        const response = await prompts({
+            type: 'autocomplete',
+            name: 'template',
+            message: 'Select a template (type to search):',
+            choices: rankTemplates(templates, '', recent).map(toChoice),
+            suggest: async (input: string) => rankTemplates(templates, input, recent).map(toChoice),
+            limit: 10
+        });
 
-        if (hasChanges) {
-            await fs.writeFile(filePath, content, 'utf-8');
+        const template = templates.find(t => t.name === response.template);
+        if (!template) {
+            return null;
+        }
+        if (!confirm || await confirm(template)) {
+            return template;
         }
-
-        return hasChanges;
-    } catch (error) {
-        console.warn(chalk.yellow(`⚠ Warning: Could not process file ${filePath}: ${error}`));
-        return false;
     }
 }
 
-function isBinaryFile(filePath: string): boolean {
-    const binaryExtensions = [
-        '.png', '.jpg', '.jpeg', '.gif', '.ico', '.svg',
-        '.pdf', '.zip', '.tar', '.gz', '.7z',
-        '.exe', '.dll', '.so', '.dylib',
-        '.woff', '.woff2', '.ttf', '.otf'
-    ];
-
-    const ext = path.extname(filePath).toLowerCase();
-    return binaryExtensions.includes(ext);
-}
+async function confirmTemplateCommands(scripts: boolean | undefined, options: InputOptions): Promise<boolean> {
+    if (scripts) {
+        return true;
+    }
 
-async function promptForReplacement(targetPath: string, isCurrentDir = false): Promise<boolean> {
-    const message = isCurrentDir
-        ? 'Current directory contains files. This will overwrite existing files. Continue?'
-        : `Directory "${targetPath}" already exists. This will overwrite existing files. Continue?`;
+    // Running commands from a template is never a default, --yes does not imply it
+    if (options.yes || !options.interactive) {
+        console.log(chalk.dim('Pass --scripts to run them without being asked'));
+        return false;
+    }
 
     const response = await prompts({
         type: 'confirm',
-        name: 'replace',
-        message,
+        name: 'run',
+        message: 'Run these commands?',
         initial: false
     });
 
-    return response.replace || false;
+    return response.run ?? false;
 }
 
-async function hasExistingFiles(dir: string): Promise<boolean> {
-    try {
-        const items = await fs.readdir(dir);
-        // Filter out hidden files and common non-project files
-        const relevantFiles = items.filter(item =>
-            !item.startsWith('.') &&
-            item !== 'node_modules' &&
-            item !== 'package-lock.json' &&
-            item !== 'yarn.lock' &&
-            item !== 'pnpm-lock.yaml'
-        );
-        return relevantFiles.length > 0;
-    } catch {
-        return false;
+async function promptForConflict(change: FileChange): Promise<ConflictResolution | null> {
+    const choices = [
+        {title: 'Keep the existing file', value: 'keep'},
+        {title: 'Overwrite with the template version', value: 'overwrite'},
+        {title: `Write the template version to ${change.path}.new`, value: 'new'},
+        // Binary files have no diff and cannot be merged
+        ...(change.diff ? [
+            change.base !== undefined
+                ? {title: 'Three-way merge with the version the project was generated from', value: 'merge'}
+                : {title: 'Two-way merge, marking lines that differ on both sides (no record of the generated version)', value: 'merge'},
+            {title: 'Show the diff', value: 'diff'}
+        ] : [])
+    ];
+
+    for (;;) {
+        const response = await prompts({
+            type: 'select',
+            name: 'resolution',
+            message: `${change.path} already exists and differs from the template`,
+            choices,
+            initial: 0
+        });
+
+        if (response.resolution !== 'diff') {
+            return response.resolution ?? null;
+        }
+        console.log(colorizeDiff(change.diff ?? ''));
     }
 }
 
 main().catch(console.error);
-
-
-// Add these exports at the end of cli.ts
-export {
-    loadConfig,
-    selectTemplate,
-    validateTemplate,
-    collectInputs,
-    suggestPackageName,
-    processFile,
-    hasExistingFiles
-};
\ No newline at end of file
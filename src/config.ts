@@ -0,0 +1,192 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {isPlainObject} from './layers';
+import {normalizePlaceholder} from './manifest';
+import type {Config, ManifestPlaceholder, Template} from './types';
+
+export const PROJECT_REGISTRY_FILE = '.genfromrc';
+export const CONFIG_ENV_VAR = 'GEN_FROM_CONFIG';
+
+export interface RegistryOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    homeDir?: string;
+}
+
+function getUserConfigDir(options: RegistryOptions = {}): string {
+    const env = options.env ?? process.env;
+    const base = env.XDG_CONFIG_HOME || path.join(options.homeDir ?? os.homedir(), '.config');
+    return path.join(base, 'gen-from');
+}
+
+function getUserRegistryPath(options: RegistryOptions = {}): string {
+    return path.join(getUserConfigDir(options), 'templates.json');
+}
+
+/**
+ * Find every .genfromrc from the filesystem root down to cwd,
+ * so the one closest to the project comes last and wins.
+ */
+async function findProjectRegistries(cwd: string): Promise<string[]> {
+    const found: string[] = [];
+    let dir = path.resolve(cwd);
+
+    while (true) {
+        const candidate = path.join(dir, PROJECT_REGISTRY_FILE);
+        if (await fs.pathExists(candidate)) {
+            found.unshift(candidate);
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            break;
+        }
+        dir = parent;
+    }
+
+    return found;
+}
+
+async function readRegistry(filePath: string): Promise<Template[]> {
+    let data: unknown;
+    try {
+        data = await fs.readJson(filePath);
+    } catch (error) {
+        throw new Error(`Could not read template registry "${filePath}": ${error instanceof Error ? error.message : error}`);
+    }
+
+    // A registry is either an array of templates or an object with a "templates" array
+    const templates = Array.isArray(data) ? data : isPlainObject(data) ? data.templates ?? [] : [];
+
+    if (!Array.isArray(templates)) {
+        throw new Error(`Invalid template registry "${filePath}": "templates" must be an array`);
+    }
+
+    const result: Template[] = [];
+    for (const template of templates as unknown[]) {
+        if (!isPlainObject(template) || typeof template.name !== 'string' || typeof template.repo !== 'string') {
+            throw new Error(`Invalid template registry "${filePath}": every template needs a "name" and a "repo"`);
+        }
+        if (template.tags !== undefined && !isStringArray(template.tags)) {
+            throw new Error(`Invalid template registry "${filePath}": "tags" of ${template.name} must be an array of strings`);
+        }
+        if (template.extends !== undefined && typeof template.extends !== 'string') {
+            throw new Error(`Invalid template registry "${filePath}": "extends" of ${template.name} must be a template name or source`);
+        }
+        if (template.layers !== undefined && !isStringArray(template.layers)) {
+            throw new Error(`Invalid template registry "${filePath}": "layers" of ${template.name} must be an array of template names or sources`);
+        }
+        if (template.bareKeys !== undefined && typeof template.bareKeys !== 'boolean') {
+            throw new Error(`Invalid template registry "${filePath}": "bareKeys" of ${template.name} must be true or false`);
+        }
+
+        result.push({
+            ...template,
+            name: template.name,
+            description: typeof template.description === 'string' ? template.description : '',
+            repo: template.repo
+        });
+    }
+
+    return result;
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Merge registries in increasing order of precedence.
+ * A template that is redefined keeps its position but takes the later definition.
+ */
+function mergeTemplates(...registries: Template[][]): Template[] {
+    const byName = new Map<string, Template>();
+
+    for (const registry of registries) {
+        for (const template of registry) {
+            byName.set(template.name, template);
+        }
+    }
+
+    return [...byName.values()];
+}
+
+async function loadConfig(packageDir: string, options: RegistryOptions = {}): Promise<Config> {
+    const env = options.env ?? process.env;
+    const templatesPath = path.join(packageDir, 'templates.json');
+    const placeholdersPath = path.join(packageDir, 'placeholders.json');
+
+    if (!await fs.pathExists(templatesPath)) {
+        throw new Error('Templates configuration file not found');
+    }
+
+    if (!await fs.pathExists(placeholdersPath)) {
+        throw new Error('Placeholders configuration file not found');
+    }
+
+    // Precedence, lowest first: bundled < user < .genfromrc (nearest last) < GEN_FROM_CONFIG
+    const registryPaths = [
+        getUserRegistryPath(options),
+        ...await findProjectRegistries(options.cwd ?? process.cwd())
+    ];
+
+    if (env[CONFIG_ENV_VAR]) {
+        const configPath = path.resolve(options.cwd ?? process.cwd(), env[CONFIG_ENV_VAR]!);
+        if (!await fs.pathExists(configPath)) {
+            throw new Error(`Template registry "${configPath}" from ${CONFIG_ENV_VAR} not found`);
+        }
+        registryPaths.push(configPath);
+    }
+
+    const registries = [await readRegistry(templatesPath)];
+    for (const registryPath of registryPaths) {
+        if (await fs.pathExists(registryPath)) {
+            registries.push(await readRegistry(registryPath));
+        }
+    }
+
+    const placeholders: ManifestPlaceholder[] = await fs.readJson(placeholdersPath);
+
+    return {
+        templates: mergeTemplates(...registries),
+        placeholders: placeholders.map(normalizePlaceholder)
+    };
+}
+
+async function addUserTemplate(template: Template, options: RegistryOptions = {}): Promise<boolean> {
+    const registryPath = getUserRegistryPath(options);
+    const templates = await fs.pathExists(registryPath) ? await readRegistry(registryPath) : [];
+    const replaced = templates.some(t => t.name === template.name);
+
+    await fs.outputJson(registryPath, mergeTemplates(templates, [template]), {spaces: 2});
+
+    return replaced;
+}
+
+async function removeUserTemplate(name: string, options: RegistryOptions = {}): Promise<boolean> {
+    const registryPath = getUserRegistryPath(options);
+    if (!await fs.pathExists(registryPath)) {
+        return false;
+    }
+
+    const templates = await readRegistry(registryPath);
+    const remaining = templates.filter(t => t.name !== name);
+    if (remaining.length === templates.length) {
+        return false;
+    }
+
+    await fs.outputJson(registryPath, remaining, {spaces: 2});
+    return true;
+}
+
+export {
+    getUserConfigDir,
+    getUserRegistryPath,
+    findProjectRegistries,
+    readRegistry,
+    mergeTemplates,
+    loadConfig,
+    addUserTemplate,
+    removeUserTemplate
+};
@@ -0,0 +1,136 @@
+import chalk from 'chalk';
+import type {RenamedPath} from './files';
+import type {HookResult} from './hooks';
+import type {GenerationRecord} from './lockfile';
+import type {WriteSummary} from './merge';
+import type {PlaceholderStats} from './types';
+
+export interface PatchedFile {
+    file: string;
+    // Paths the patches changed in the file
+    changed: string[];
+}
+
+// Progress of a generation, in the order things happen
+export type GenerateEvent =
+    // Copying a local template, or asking the host of a remote one for its latest commit
+    | { type: 'fetch'; source: string; local: boolean; authenticatedWith?: string }
+    | { type: 'download'; source: string; version: string; previousVersion?: string }
+    // The host could not be reached or the download failed, the cached copy is used
+    | { type: 'fallback'; source: string; reason: string }
+    | { type: 'fetched'; source: string; version?: string; cached: boolean; reason?: string }
+    | { type: 'process' }
+    | { type: 'processed'; stats: PlaceholderStats; renamed: RenamedPath[]; patched: PatchedFile[]; processed: number }
+    // The project is written, `record` is null when its .gen-from.json could not be
+    | { type: 'written'; targetDir: string; summary: WriteSummary; record: GenerationRecord | null }
+    | { type: 'step'; kind: HookResult['kind']; name: string }
+    | { type: 'stepResult'; result: HookResult }
+    // Template commands waiting for confirmation, and those that were not confirmed
+    | { type: 'commands'; commands: string[] }
+    | { type: 'commandsSkipped'; commands: string[] }
+    | { type: 'warning'; message: string };
+
+export type EventHandler = (event: GenerateEvent) => void;
+
+/**
+ * Print an event the way the CLI shows progress, the default of the modules that report any.
+ * `written` is left to the CLI, which follows it with its own summary.
+ */
+function printEvent(event: GenerateEvent): void {
+    switch (event.type) {
+        case 'fetch':
+            console.log(chalk.dim(event.local
+                ? `\nCopying template from ${event.source}...`
+                : `\nChecking ${event.source} for updates${event.authenticatedWith ? ` (authenticated with ${event.authenticatedWith})` : ''}...`));
+            break;
+        case 'download':
+            console.log(chalk.dim(event.previousVersion
+                ? `Updating ${event.source} from ${event.previousVersion.slice(0, 7)} to ${event.version.slice(0, 7)}...`
+                : `Downloading ${event.source}...`));
+            break;
+        case 'fallback':
+            console.log(chalk.yellow(`⚠ ${event.reason}, falling back to the cache`));
+            break;
+        case 'fetched':
+            if (!event.version) {
+                console.log(chalk.green('✓ Template copied'));
+            } else if (event.cached) {
+                console.log(chalk.green(`✓ Using cached template ${event.source} at ${event.version.slice(0, 7)}`) + chalk.dim(` (${event.reason})`));
+            } else {
+                console.log(chalk.green(`✓ Template downloaded at ${event.version.slice(0, 7)}`));
+            }
+            break;
+        case 'process':
+            console.log(chalk.dim('\nProcessing template files...'));
+            break;
+        case 'processed':
+            printProcessed(event);
+            break;
+        case 'step':
+            console.log(chalk.cyan(`\n› ${event.name}`));
+            break;
+        case 'stepResult': {
+            const {result} = event;
+            if (result.status === 'skipped') {
+                console.log(chalk.dim(`- Skipped: ${result.detail}`));
+            } else if (result.status === 'done') {
+                console.log(chalk.green(`✓ ${result.step}`));
+            } else if (result.status === 'cancelled') {
+                console.log(chalk.yellow(`- Cancelled: ${result.step}`));
+            } else {
+                console.log(chalk.red(`✗ ${result.step} failed: ${result.detail}`));
+            }
+            break;
+        }
+        case 'commands':
+            console.log(chalk.yellow('\nThe template wants to run:'));
+            for (const command of event.commands) {
+                console.log(`  ${command}`);
+            }
+            break;
+        case 'commandsSkipped':
+            console.log(chalk.dim('- Skipped the template commands'));
+            break;
+        case 'warning':
+            console.warn(chalk.yellow(`⚠ Warning: ${event.message}`));
+            break;
+    }
+}
+
+function printProcessed(event: Extract<GenerateEvent, { type: 'processed' }>): void {
+    console.log(chalk.yellow('\nPlaceholder replacement summary:'));
+    const replaced = Object.entries(event.stats).filter(([, stats]) => stats.count > 0);
+
+    for (const [key, stats] of replaced) {
+        console.log(chalk.cyan(`  ${key}`) + chalk.dim(` => Found ${stats.count} occurrence${stats.count === 1 ? '' : 's'} => Replacing with `) + chalk.green(`"${stats.replacement}"`));
+    }
+    if (replaced.length === 0) {
+        console.log(chalk.dim('  No placeholders found in template files'));
+    }
+
+    if (event.renamed.length > 0) {
+        console.log(chalk.yellow('\nRenamed paths:'));
+        for (const {from, to} of event.renamed) {
+            console.log(chalk.cyan(`  ${from}`) + chalk.dim(' => ') + chalk.green(to));
+        }
+    }
+
+    console.log(''); // Empty line for spacing
+
+    if (event.patched.length > 0) {
+        console.log(chalk.yellow('Patched files:'));
+        for (const {file, changed} of event.patched) {
+            console.log(chalk.cyan(`  ${file}`) + chalk.dim(' => ') + chalk.green(changed.join(', ')));
+        }
+    }
+
+    if (replaced.length > 0 && event.processed > 0) {
+        console.log(chalk.green(`✓ ${event.processed} file${event.processed === 1 ? '' : 's'} processed`));
+    } else {
+        console.log(chalk.green('✓ Template files copied'));
+    }
+}
+
+export {
+    printEvent
+};
@@ -0,0 +1,457 @@
+import fs from 'fs-extra';
+import path from 'path';
+import picomatch from 'picomatch';
+import {printEvent} from './events';
+import type {EventHandler, PatchedFile} from './events';
+import {applyPatch, DEFAULT_PATCHES} from './patch';
+import {createRenderContext, defaultRenderer, escapeRegExp, formatValue, listTemplateTags, TemplateSyntaxError} from './render';
+import type {Renderer} from './render';
+import type {FileFilter, Patch, PlaceholderStats, UserInputs} from './types';
+
+export interface RenamedPath {
+    from: string;
+    to: string;
+}
+
+export interface FileReport {
+    // Path relative to the processed directory
+    path: string;
+    replacements: number;
+}
+
+// A bare key found inside a longer identifier, like USERNAME in DB_USERNAME
+export interface EmbeddedKey {
+    key: string;
+    identifier: string;
+    line: number;
+}
+
+export interface ProcessOptions {
+    renderer?: Renderer;
+    // Tag delimiters, {{ and }} when unset
+    delimiters?: [string, string];
+    // Legacy templates: also replace keys written without delimiters
+    bareKeys?: boolean;
+    // Root of the generated project, file paths in errors are relative to it
+    rootDir?: string;
+    // Receives warnings about files that could not be processed, printed when unset
+    onEvent?: EventHandler;
+}
+
+export interface ProcessFilesOptions {
+    renderer?: Renderer;
+    delimiters?: [string, string];
+    bareKeys?: boolean;
+    // Which files get their contents processed, the others are copied as they are
+    filter?: FileFilter;
+    // Glob patterns of files that keep both their name and contents
+    verbatim?: string[];
+    // File names replaced on output, e.g. _gitignore to .gitignore
+    renames?: Record<string, string>;
+    // Structured edits of JSON, YAML and TOML files, the package.json defaults when unset
+    patches?: Patch[];
+    // Receives progress and warnings, printed when unset
+    onEvent?: EventHandler;
+}
+
+export interface RenameOptions {
+    renderer?: Renderer;
+    delimiters?: [string, string];
+    bareKeys?: boolean;
+    renames?: Record<string, string>;
+    // Relative paths that are left as they are
+    isVerbatim?: (relativePath: string) => boolean;
+}
+
+interface DecodedText {
+    text: string;
+    bom: boolean;
+    eol: '\n' | '\r\n';
+}
+
+const UTF8_BOM = '\uFEFF';
+
+// Plain-text form of the answers, for substitutions that can only insert strings
+function stringifyInputs(userInputs: UserInputs): Record<string, string> {
+    return Object.fromEntries(Object.entries(userInputs).map(([key, value]) => [key, formatValue(value)]));
+}
+
+async function processFiles(targetDir: string, userInputs: UserInputs, options: ProcessFilesOptions = {}): Promise<FileReport[]> {
+    const {renderer = defaultRenderer, delimiters, bareKeys = false, filter = {include: [], exclude: []}, verbatim = [], renames = {}, patches = DEFAULT_PATCHES, onEvent = printEvent} = options;
+    onEvent({type: 'process'});
+
+    // Verbatim globs match paths in the template, so find those files before anything is renamed
+    const isVerbatim = verbatim.length > 0 ? createFileMatcher({include: verbatim, exclude: []}) : () => false;
+    const verbatimFiles = (await getAllFiles(targetDir))
+        .map(filePath => path.relative(targetDir, filePath))
+        .filter(isVerbatim);
+
+    // Substitute placeholders in file and directory names before reading contents
+    const renamed = await renamePaths(targetDir, userInputs, {renderer, delimiters, bareKeys, renames, isVerbatim});
+
+    // Get all files recursively, a verbatim file may have moved with a renamed parent directory
+    const files = await getAllFiles(targetDir);
+    const skipped = new Set(verbatimFiles.map(relativePath => resolveRenamedPath(relativePath, renamed)));
+    const isProcessed = createFileMatcher(filter);
+    const isIncluded = (relativePath: string) => !skipped.has(relativePath) && isProcessed(relativePath);
+
+    // First pass: count placeholders across all files
+    const placeholderStats: PlaceholderStats = {};
+    const reports: FileReport[] = files.map(filePath => ({path: path.relative(targetDir, filePath), replacements: 0}));
+
+    for (const [key, value] of Object.entries(userInputs)) {
+        placeholderStats[key] = {
+            count: 0,
+            replacement: formatValue(value)
+        };
+    }
+
+    // Count placeholders in all files
+    for (const [index, filePath] of files.entries()) {
+        // Files the template does not want processed are copied as they are
+        if (!isIncluded(path.relative(targetDir, filePath))) {
+            continue;
+        }
+
+        try {
+            const buffer = await fs.readFile(filePath);
+            if (!isBinaryContent(buffer)) {
+                const content = decodeText(buffer).text;
+                // Block tags only decide what is output, values are what gets replaced
+                const tagKeys = listTemplateTags(content, undefined, delimiters).filter(tag => tag.kind === 'var').map(tag => tag.key);
+                // Legacy templates also replace keys written without delimiters, in what the tags rendered to
+                const bareMatches = bareKeys
+                    ? countBareKeys(renderer.render(content, createRenderContext(userInputs), {delimiters}), Object.keys(userInputs))
+                    : [];
+                for (const key of [...tagKeys, ...bareMatches].filter(key => Object.prototype.hasOwnProperty.call(placeholderStats, key))) {
+                    placeholderStats[key].count++;
+                    reports[index].replacements++;
+                }
+            }
+        } catch (error) {
+            // Skip files that can't be read
+        }
+    }
+
+    // Second pass: actually replace the placeholders
+    let filesProcessed = 0;
+    for (const filePath of files.filter(filePath => isIncluded(path.relative(targetDir, filePath)))) {
+        const wasModified = await processFile(filePath, userInputs, {renderer, delimiters, bareKeys, rootDir: targetDir, onEvent});
+        if (wasModified) {
+            filesProcessed++;
+        }
+    }
+
+    // Patches see the final contents, after placeholders have been replaced
+    const patched = await patchFiles(targetDir, files.filter(filePath => isIncluded(path.relative(targetDir, filePath))), userInputs, patches, renderer, onEvent);
+    onEvent({type: 'processed', stats: placeholderStats, renamed, patched, processed: filesProcessed});
+
+    return reports;
+}
+
+async function patchFiles(rootDir: string, files: string[], userInputs: UserInputs, patches: Patch[], renderer: Renderer, onEvent: EventHandler): Promise<PatchedFile[]> {
+    const matchers = patches.map(patch => ({patch, matches: createFileMatcher({include: [patch.file], exclude: []})}));
+    const patched: PatchedFile[] = [];
+
+    for (const filePath of files) {
+        const relativePath = path.relative(rootDir, filePath);
+        const matching = matchers.filter(({matches}) => matches(relativePath));
+        if (matching.length === 0) {
+            continue;
+        }
+
+        try {
+            const decoded = decodeText(await fs.readFile(filePath));
+            let content = decoded.text;
+            const changed: string[] = [];
+            for (const {patch} of matching) {
+                const result = applyPatch(content, relativePath, patch, userInputs, renderer);
+                content = result.content;
+                changed.push(...result.changed.filter(key => !changed.includes(key)));
+            }
+
+            if (changed.length > 0) {
+                const {mode} = await fs.stat(filePath);
+                await fs.writeFile(filePath, encodeText(content, decoded));
+                await fs.chmod(filePath, mode);
+                patched.push({file: relativePath, changed});
+            }
+        } catch (error) {
+            if (error instanceof TemplateSyntaxError) {
+                throw error;
+            }
+            onEvent({type: 'warning', message: `Could not patch ${relativePath}: ${error instanceof Error ? error.message : error}`});
+        }
+    }
+
+    return patched;
+}
+
+/**
+ * Substitute placeholders in a single path segment: `__KEY__`, `{{KEY | filter}}` and, for legacy templates,
+ * bare keys, the same way file contents are processed.
+ */
+function renderPathSegment(segment: string, userInputs: UserInputs, renderer: Renderer = defaultRenderer, options: Pick<ProcessOptions, 'delimiters' | 'bareKeys'> = {}): string {
+    const inputs = stringifyInputs(userInputs);
+    let result = segment.replace(/__([A-Za-z][A-Za-z0-9_]*?)__/g, (match, key: string) => Object.prototype.hasOwnProperty.call(inputs, key) ? inputs[key] : match);
+
+    result = renderer.render(result, createRenderContext(userInputs), {file: segment, delimiters: options.delimiters});
+
+    return options.bareKeys ? replaceBareKeys(result, inputs) : result;
+}
+
+function replaceBareKeys(content: string, inputs: Record<string, string>): string {
+    // Longest keys first, so PROJECT_NAME_SLUG is not clobbered by PROJECT_NAME
+    for (const key of Object.keys(inputs).sort((a, b) => b.length - a.length)) {
+        if (content.includes(key)) {
+            content = content.split(key).join(inputs[key]);
+        }
+    }
+    return content;
+}
+
+// The keys replaceBareKeys() replaces, once per occurrence: a longer key is counted first and
+// its occurrences are taken out, so PROJECT_NAME is not counted again inside PROJECT_NAME_SLUG
+function countBareKeys(content: string, keys: string[]): string[] {
+    const found: string[] = [];
+    for (const key of [...keys].sort((a, b) => b.length - a.length)) {
+        const parts = content.split(key);
+        found.push(...parts.slice(1).map(() => key));
+        content = parts.join('\0');
+    }
+    return found;
+}
+
+/**
+ * Find keys written inside longer identifiers, which bare-key replacement rewrites too:
+ * USERNAME in DB_USERNAME, LICENSE in LICENSE_FILE. Identifiers that are keys themselves are expected.
+ */
+function findEmbeddedKeys(content: string, keys: string[]): EmbeddedKey[] {
+    const found: EmbeddedKey[] = [];
+
+    for (const key of keys) {
+        for (const match of content.matchAll(new RegExp(`[A-Za-z0-9_]*${escapeRegExp(key)}[A-Za-z0-9_]*`, 'g'))) {
+            const identifier = match[0];
+            if (identifier !== key && !keys.includes(identifier)) {
+                found.push({key, identifier, line: countLines(content, match.index ?? 0)});
+            }
+        }
+    }
+
+    return found.sort((a, b) => a.line - b.line);
+}
+
+function countLines(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Rename files and directories whose names contain placeholders, or that `renames` maps to a new name.
+ * Verbatim paths keep their names. Deepest paths go first, so a directory is only renamed after everything inside it.
+ * Renames never overwrite: two paths ending up with the same name is an error.
+ */
+async function renamePaths(rootDir: string, userInputs: UserInputs, options: RenameOptions = {}): Promise<RenamedPath[]> {
+    const {renderer = defaultRenderer, delimiters, bareKeys, renames = {}, isVerbatim = () => false} = options;
+    const entries: string[] = [];
+
+    async function scan(currentDir: string) {
+        for (const item of await fs.readdir(currentDir)) {
+            const fullPath = path.join(currentDir, item);
+            entries.push(fullPath);
+            if ((await fs.lstat(fullPath)).isDirectory() && item !== 'node_modules' && item !== '.git') {
+                await scan(fullPath);
+            }
+        }
+    }
+
+    await scan(rootDir);
+
+    const depth = (p: string) => p.split(path.sep).length;
+    const renamed: RenamedPath[] = [];
+
+    for (const fullPath of entries.sort((a, b) => depth(b) - depth(a))) {
+        const relativePath = path.relative(rootDir, fullPath);
+        if (isVerbatim(relativePath)) {
+            continue;
+        }
+
+        const name = path.basename(fullPath);
+        const newName = Object.prototype.hasOwnProperty.call(renames, name) ? renames[name] : renderPathSegment(name, userInputs, renderer, {delimiters, bareKeys});
+        if (newName === name) {
+            continue;
+        }
+
+        if (!newName || newName === '.' || newName === '..' || /[\/\\]/.test(newName)) {
+            throw new Error(`Cannot rename "${relativePath}": "${newName}" is not a valid file name`);
+        }
+
+        const newPath = path.join(path.dirname(fullPath), newName);
+        if (await fs.pathExists(newPath)) {
+            throw new Error(`Cannot rename "${relativePath}" to "${path.relative(rootDir, newPath)}": the path already exists in the template`);
+        }
+
+        await fs.rename(fullPath, newPath);
+        renamed.push({from: relativePath, to: path.relative(rootDir, newPath)});
+    }
+
+    // Report parents before children, with the final names of their parents
+    return renamed.reverse().map(({from}) => ({from, to: resolveRenamedPath(from, renamed)}));
+}
+
+function resolveRenamedPath(relativePath: string, renamed: RenamedPath[]): string {
+    const segments = relativePath.split(path.sep);
+    return segments.map((segment, i) => {
+        const match = renamed.find(r => r.from === segments.slice(0, i + 1).join(path.sep));
+        return match ? path.basename(match.to) : segment;
+    }).join(path.sep);
+}
+
+async function getAllFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    async function scan(currentDir: string) {
+        const items = await fs.readdir(currentDir);
+
+        for (const item of items) {
+            const fullPath = path.join(currentDir, item);
+            const stat = await fs.stat(fullPath);
+
+            if (stat.isDirectory()) {
+                // Skip node_modules and .git directories
+                if (item !== 'node_modules' && item !== '.git') {
+                    await scan(fullPath);
+                }
+            } else {
+                files.push(fullPath);
+            }
+        }
+    }
+
+    await scan(dir);
+    return files;
+}
+
+async function processFile(filePath: string, userInputs: UserInputs, options: ProcessOptions = {}): Promise<boolean> {
+    const {renderer = defaultRenderer, delimiters, bareKeys = false, rootDir, onEvent = printEvent} = options;
+    const inputs = stringifyInputs(userInputs);
+    const file = rootDir ? path.relative(rootDir, filePath) : filePath;
+
+    try {
+        const buffer = await fs.readFile(filePath);
+
+        // Skip binary files
+        if (isBinaryContent(buffer)) {
+            return false;
+        }
+
+        // Work on LF text without a BOM, both are restored when writing
+        const decoded = decodeText(buffer);
+        let content = decoded.text;
+        let hasChanges = false;
+
+        // Render template tags first, bare keys could otherwise break them apart
+        const rendered = renderer.render(content, createRenderContext(userInputs), {file, delimiters});
+        if (rendered !== content) {
+            content = rendered;
+            hasChanges = true;
+        }
+
+        if (bareKeys) {
+            const embedded = findEmbeddedKeys(content, Object.keys(inputs));
+            if (embedded.length > 0) {
+                const list = embedded.map(({key, identifier, line}) => `${key} in ${identifier} (line ${line})`).join(', ');
+                onEvent({type: 'warning', message: `${file}: bare keys replaced inside longer names, ${list}`});
+            }
+
+            const replaced = replaceBareKeys(content, inputs);
+            if (replaced !== content) {
+                content = replaced;
+                hasChanges = true;
+            }
+        }
+
+        if (hasChanges) {
+            // Rewriting keeps the file, but set the mode again in case the file system replaced it
+            const {mode} = await fs.stat(filePath);
+            await fs.writeFile(filePath, encodeText(content, decoded));
+            await fs.chmod(filePath, mode);
+        }
+
+        return hasChanges;
+    } catch (error) {
+        // A broken template is an error of its own, not a file we can skip
+        if (error instanceof TemplateSyntaxError) {
+            throw error;
+        }
+        onEvent({type: 'warning', message: `Could not process file ${filePath}: ${error}`});
+        return false;
+    }
+}
+
+/**
+ * Binary files contain null bytes or are not valid UTF-8.
+ * Only the start is searched for null bytes, the whole file is decoded.
+ */
+function isBinaryContent(buffer: Buffer): boolean {
+    if (buffer.subarray(0, 8000).includes(0)) {
+        return true;
+    }
+
+    try {
+        new TextDecoder('utf-8', {fatal: true}).decode(buffer);
+        return false;
+    } catch {
+        return true;
+    }
+}
+
+async function isBinaryFile(filePath: string): Promise<boolean> {
+    return isBinaryContent(await fs.readFile(filePath));
+}
+
+function decodeText(buffer: Buffer): DecodedText {
+    let text = buffer.toString('utf-8');
+    const bom = text.startsWith(UTF8_BOM);
+    if (bom) {
+        text = text.slice(UTF8_BOM.length);
+    }
+
+    // Only files that use CRLF throughout are converted, mixed line endings are left alone
+    const eol = text.includes('\r\n') && !/(^|[^\r])\n/.test(text) ? '\r\n' : '\n';
+    if (eol === '\r\n') {
+        text = text.replace(/\r\n/g, '\n');
+    }
+
+    return {text, bom, eol};
+}
+
+function encodeText(text: string, {bom, eol}: Omit<DecodedText, 'text'>): Buffer {
+    const content = eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
+    return Buffer.from(bom ? UTF8_BOM + content : content, 'utf-8');
+}
+
+// Matches relative paths against a template's include and exclude globs
+function createFileMatcher({include, exclude}: FileFilter): (relativePath: string) => boolean {
+    const isIncluded = include.length > 0 ? picomatch(include, {dot: true}) : () => true;
+    const isExcluded = exclude.length > 0 ? picomatch(exclude, {dot: true}) : () => false;
+
+    return relativePath => {
+        const normalized = relativePath.split(path.sep).join('/');
+        return isIncluded(normalized) && !isExcluded(normalized);
+    };
+}
+
+export {
+    stringifyInputs,
+    processFiles,
+    renderPathSegment,
+    findEmbeddedKeys,
+    renamePaths,
+    getAllFiles,
+    processFile,
+    isBinaryContent,
+    isBinaryFile,
+    decodeText,
+    encodeText,
+    createFileMatcher
+};
@@ -0,0 +1,342 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {loadConfig} from './config';
+import type {EventHandler, GenerateEvent} from './events';
+import {decodeText, isBinaryContent, processFiles} from './files';
+import type {FileReport} from './files';
+import {runHooks} from './hooks';
+import type {HookResult} from './hooks';
+import {collectInputs} from './inputs';
+import {mergeLayer, resolveLayers} from './layers';
+import {createGenerationRecord, LOCKFILE, readLockfile, writeLockfile} from './lockfile';
+import type {GenerationRecord, RecordedTemplate} from './lockfile';
+import {loadManifest, MANIFEST_FILE, mergePlaceholders, removeIgnoredFiles} from './manifest';
+import {ConflictError, writeStagedFiles} from './merge';
+import type {ConflictPolicy, ConflictResolver, WriteSummary} from './merge';
+import {DEFAULT_PATCHES} from './patch';
+import {compareWithTarget} from './preview';
+import type {FileChange} from './preview';
+import {createRenderContext, defaultRenderer} from './render';
+import {describeSource, downloadTemplate, isExplicitSource, parseTemplateSource} from './sources';
+import type {DownloadOptions} from './sources';
+import {CancelledError} from './transaction';
+import type {Config, InputOptions, Manifest, PlaceholderStats, Template, UserInputs} from './types';
+
+// Holds package.json and the bundled templates.json and placeholders.json, tsup shims __dirname in the ESM build
+export const PACKAGE_DIR = path.join(__dirname, '..');
+
+export interface GenerateOptions {
+    // Registry name, `#ref` pins it, a source such as `owner/repo#v1.2.0` or `gitlab:group/repo`, or a local path
+    template: string;
+    // Templates merged on top of it after its own `extends` and `layers`, by name or source like `template`
+    layers?: string[];
+    // Directory to generate into, the PROJECT_NAME answer when unset
+    target?: string;
+    // Answers by placeholder key, the others get their default
+    answers?: UserInputs;
+    // Also use the default of required placeholders nobody answered
+    useDefaults?: boolean;
+    // Ask for missing answers with prompts instead of failing, for terminals
+    interactive?: boolean;
+    // Existing files that differ from the template: keep them, overwrite them, or let a resolver decide per file.
+    // When unset, such files fail the generation with a ConflictError before anything is written.
+    onConflict?: Exclude<ConflictPolicy, 'prompt'> | ConflictResolver;
+    // Render and compare with the target, without writing
+    dryRun?: boolean;
+    // What the template's manifest asks for when unset
+    install?: boolean;
+    git?: boolean;
+    // true runs the template's postGenerate commands, false leaves them out, otherwise `confirmCommands` decides
+    scripts?: boolean;
+    confirmCommands?: (commands: string[]) => Promise<boolean>;
+    // Show the output of install and template commands, off by default
+    inheritOutput?: boolean;
+    offline?: boolean;
+    refresh?: boolean;
+    // Templates and global placeholders, the bundled ones and the registries when unset
+    config?: Config;
+    signal?: AbortSignal;
+    onEvent?: EventHandler;
+}
+
+export interface GenerateResult {
+    template: RecordedTemplate;
+    // Every template merged into the project in order, only the template when it has no layers
+    layers: RecordedTemplate[];
+    targetDir: string;
+    answers: UserInputs;
+    // Every output file with its replacements, compared with what was in the target before
+    files: FileChange[];
+    // Occurrences of each placeholder across the template
+    replacements: PlaceholderStats;
+    // What was written, null for dry runs
+    summary: WriteSummary | null;
+    // Contents of the project's .gen-from.json, null for dry runs or when it could not be written
+    record: GenerationRecord | null;
+    hooks: HookResult[];
+    // Messages the template wants shown once the project is generated
+    messages: string[];
+}
+
+/**
+ * Find a template in the registries, by name or source. Unknown names become a source of their own,
+ * bare ones under `phucbm/`. A ref after the name pins a registry template, e.g. npm-utils-template#v1.2.0
+ */
+function findTemplate(templates: Template[], templateArg: string): Template {
+    // Check if it's an explicit source (user/repo, gitlab:, file:, path...) or just repo name
+    const repoPath = isExplicitSource(templateArg) ? templateArg : `phucbm/${templateArg}`;
+
+    const [name, ref] = templateArg.split('#', 2);
+    const found = templates.find(t => t.name === templateArg || t.repo === templateArg || t.repo === repoPath)
+        ?? (ref ? templates.find(t => t.name === name) : undefined);
+    if (found) {
+        return found.name === name && ref ? {...found, repo: `${found.repo.split('#')[0]}#${ref}`} : found;
+    }
+
+    return {
+        name: templateArg,
+        description: `Template from ${repoPath}`,
+        repo: repoPath
+    };
+}
+
+/**
+ * Download the template into a staging directory, through the cache for remote templates,
+ * so its manifest can be read before anything is written to the target.
+ * The caller owns the staging directory and must remove it.
+ */
+async function fetchTemplate(template: Template, options: DownloadOptions = {}): Promise<{ stagingDir: string; manifest: Manifest; commit?: string }> {
+    const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-'));
+
+    try {
+        const {version} = await downloadTemplate(template.repo, stagingDir, {offline: options.offline, refresh: options.refresh, onEvent: options.onEvent});
+        const manifest = await loadManifest(stagingDir);
+        // The registry can turn on bare keys for templates that predate tags and have no manifest setting
+        return {stagingDir, manifest: template.bareKeys ? {...manifest, bareKeys: true} : manifest, commit: version};
+    } catch (error) {
+        await fs.remove(stagingDir);
+        throw error;
+    }
+}
+
+/**
+ * Render a fetched template in place: leave out the files it ignores and process the rest.
+ */
+async function renderTemplate(stagingDir: string, manifest: Manifest, userInputs: UserInputs, onEvent?: EventHandler): Promise<FileReport[]> {
+    await removeIgnoredFiles(stagingDir, manifest.ignore);
+    return processFiles(stagingDir, userInputs, {
+        filter: manifest.process,
+        verbatim: manifest.verbatim,
+        renames: manifest.rename,
+        patches: [...manifest.defaultPatches ? DEFAULT_PATCHES : [], ...manifest.patches],
+        delimiters: manifest.delimiters,
+        bareKeys: manifest.bareKeys,
+        onEvent
+    });
+}
+
+/**
+ * Render the template version the target's .gen-from.json records, with the recorded answers, as the base of
+ * three-way merges: the text of each file by path. Empty when the target was not generated from this template
+ * at a known commit, or when that version cannot be rendered.
+ */
+async function renderRecordedVersion(targetDir: string, template: Template, answers: UserInputs, config: Config, options: DownloadOptions = {}): Promise<Map<string, string>> {
+    const onEvent = options.onEvent ?? (() => undefined);
+    const files = new Map<string, string>();
+    const withoutRef = (spec: string) => describeSource({...parseTemplateSource(spec), ref: undefined});
+    let stagingDir: string | undefined;
+
+    try {
+        const record = await readLockfile(targetDir);
+        if (!record?.template.commit || record.layers || withoutRef(record.template.source) !== withoutRef(template.repo)) {
+            return files;
+        }
+
+        const repo = describeSource({...parseTemplateSource(record.template.source), ref: record.template.commit});
+        const base = await fetchTemplate({...template, repo}, {offline: options.offline, onEvent: () => undefined});
+        stagingDir = base.stagingDir;
+        // Answers that are not recorded, such as secrets, are the ones given now
+        const inputs = await collectInputs(mergePlaceholders(config.placeholders, base.manifest.placeholders), {
+            presets: {...answers, ...record.answers},
+            yes: true,
+            interactive: false
+        });
+        for (const report of await renderTemplate(base.stagingDir, base.manifest, inputs ?? answers, () => undefined)) {
+            const content = await fs.readFile(path.join(base.stagingDir, report.path));
+            if (!isBinaryContent(content)) {
+                files.set(report.path, decodeText(content).text);
+            }
+        }
+    } catch (error) {
+        onEvent({type: 'warning', message: `Could not render the version the project was generated from, files are merged two-way: ${error instanceof Error ? error.message : error}`});
+        files.clear();
+    } finally {
+        if (stagingDir) {
+            await fs.remove(stagingDir);
+        }
+    }
+
+    return files;
+}
+
+function checkAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new CancelledError('Operation cancelled, nothing was written');
+    }
+}
+
+function toConflictResolver(onConflict: GenerateOptions['onConflict'], files: FileChange[]): ConflictResolver {
+    if (typeof onConflict === 'function') {
+        return onConflict;
+    }
+    if (onConflict === 'skip') {
+        return async () => 'keep';
+    }
+    if (onConflict === 'overwrite') {
+        return async () => 'overwrite';
+    }
+
+    const conflicts = files.filter(change => change.change === 'modified').map(change => change.path);
+    if (conflicts.length > 0) {
+        throw new ConflictError(`${conflicts.length} existing file${conflicts.length === 1 ? ' differs' : 's differ'} from the template: ${conflicts.join(', ')}`, conflicts);
+    }
+    return async () => 'keep';
+}
+
+/**
+ * Generate a project: fetch the template, collect the answers, render it, write it into the target
+ * and run the post-generation steps. Progress goes to `onEvent`, failures are thrown, nothing is printed.
+ */
+async function generate(options: GenerateOptions): Promise<GenerateResult> {
+    const onEvent = options.onEvent ?? (() => undefined);
+    const config = options.config ?? await loadConfig(PACKAGE_DIR);
+    const {version} = await fs.readJson(path.join(PACKAGE_DIR, 'package.json'));
+    const template = findTemplate(config.templates, options.template);
+    const inputOptions: InputOptions = {
+        presets: options.answers ?? {},
+        yes: options.useDefaults ?? false,
+        interactive: options.interactive ?? false
+    };
+
+    // The template, what it extends and its layers, each fetched into a staging directory of its own
+    const parts = resolveLayers(template, name => findTemplate(config.templates, name), options.layers);
+    const fetched: (Awaited<ReturnType<typeof fetchTemplate>> & { template: Template })[] = [];
+
+    try {
+        for (const part of parts) {
+            fetched.push({template: part, ...await fetchTemplate(part, {offline: options.offline, refresh: options.refresh, onEvent})});
+            checkAborted(options.signal);
+        }
+        const [{stagingDir}] = fetched;
+        const manifests = fetched.map(part => part.manifest);
+        const placeholders = mergePlaceholders(config.placeholders, manifests.flatMap(manifest => manifest.placeholders));
+
+        const answers = await collectInputs(placeholders, inputOptions);
+        if (!answers) {
+            throw new CancelledError('Setup cancelled');
+        }
+
+        const targetDir = options.target || String(answers.PROJECT_NAME ?? '');
+        if (!targetDir) {
+            throw new Error('No target directory: pass one, or answer PROJECT_NAME');
+        }
+
+        // Process files while they are still staged, merge the layers into the first staging directory,
+        // then compare them with what is already in the target
+        const replacements: PlaceholderStats = {};
+        let reports: FileReport[] = [];
+        for (const [index, part] of fetched.entries()) {
+            const rendered = await renderTemplate(part.stagingDir, part.manifest, answers, (event: GenerateEvent) => {
+                if (event.type === 'processed') {
+                    for (const [key, stats] of Object.entries(event.stats)) {
+                        replacements[key] = {...stats, count: (replacements[key]?.count ?? 0) + stats.count};
+                    }
+                }
+                onEvent(event);
+            });
+            reports = index === 0
+                ? rendered
+                : await mergeLayer({name: fetched[0].template.name, dir: stagingDir, reports}, {name: part.template.name, dir: part.stagingDir, reports: rendered}, onEvent);
+        }
+        const layers = fetched.map(({template: part, commit}): RecordedTemplate => ({
+            name: part.name,
+            source: describeSource(parseTemplateSource(part.repo)),
+            ...commit ? {commit} : {}
+        }));
+
+        // Record what the project was generated from, for audits and re-generation. It is staged with
+        // the files so dry runs show it, but written on its own: it always differs from the last one
+        const record = createGenerationRecord(layers[parts.indexOf(template)], version, placeholders, answers, layers);
+        await writeLockfile(stagingDir, record);
+        const files = await compareWithTarget(stagingDir, targetDir, [...reports.filter(report => report.path !== LOCKFILE), {path: LOCKFILE, replacements: 0}]);
+        const templateFiles = files.filter(file => file.path !== LOCKFILE);
+        checkAborted(options.signal);
+
+        // Messages and template commands may use the answers, e.g. "pnpm run rename {{PROJECT_NAME}}"
+        const context = createRenderContext(answers);
+        const result: GenerateResult = {
+            template: layers[parts.indexOf(template)],
+            layers,
+            targetDir,
+            answers,
+            files,
+            replacements,
+            summary: null,
+            record: null,
+            hooks: [],
+            messages: manifests.flatMap(manifest => manifest.messages).map(message => defaultRenderer.render(message, context, {file: MANIFEST_FILE}))
+        };
+
+        if (options.dryRun) {
+            return result;
+        }
+
+        // Files that differ can be merged three-way when the target records the template version it was generated from
+        if (typeof options.onConflict === 'function' && parts.length === 1 && templateFiles.some(file => file.change === 'modified')) {
+            const base = await renderRecordedVersion(targetDir, template, answers, config, {offline: options.offline, onEvent});
+            for (const file of templateFiles.filter(file => file.change === 'modified' && base.has(file.path))) {
+                file.base = base.get(file.path);
+            }
+        }
+
+        const summary = await writeStagedFiles(stagingDir, targetDir, templateFiles, toConflictResolver(options.onConflict, templateFiles), options.signal);
+        if (!summary) {
+            throw new CancelledError('Operation cancelled, nothing was written');
+        }
+        result.summary = summary;
+
+        try {
+            await writeLockfile(targetDir, record);
+            result.record = record;
+        } catch (error) {
+            onEvent({type: 'warning', message: `Could not write ${LOCKFILE}: ${error instanceof Error ? error.message : error}`});
+        }
+        onEvent({type: 'written', targetDir, summary, record: result.record});
+
+        result.hooks = await runHooks(targetDir, {
+            install: options.install ?? manifests.some(manifest => manifest.install),
+            git: options.git ?? manifests.some(manifest => manifest.git),
+            commands: options.scripts === false ? [] : manifests.flatMap(manifest => manifest.postGenerate).map(command => defaultRenderer.render(command, context, {file: MANIFEST_FILE})),
+            templateName: template.name
+        }, {
+            confirmCommands: async commands => options.scripts ?? (options.confirmCommands ? options.confirmCommands(commands) : false),
+            onEvent,
+            inheritOutput: options.inheritOutput ?? false,
+            signal: options.signal
+        });
+
+        return result;
+    } finally {
+        for (const part of fetched) {
+            await fs.remove(part.stagingDir);
+        }
+    }
+}
+
+export {
+    findTemplate,
+    fetchTemplate,
+    renderTemplate,
+    generate
+};
@@ -0,0 +1,212 @@
+import {spawn} from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import {printEvent} from './events';
+import type {EventHandler} from './events';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export interface HookPlan {
+    install: boolean;
+    git: boolean;
+    // Shell commands from the template, already rendered
+    commands: string[];
+    // Used in the initial commit message
+    templateName: string;
+}
+
+export interface HookOptions {
+    env?: NodeJS.ProcessEnv;
+    // Asked once before any template command runs, false skips them all
+    confirmCommands: (commands: string[]) => Promise<boolean>;
+    // Receives each step and its result, printed when unset
+    onEvent?: EventHandler;
+    // Show the output of install and template commands, on by default
+    inheritOutput?: boolean;
+    // Once aborted, the running step is stopped and the remaining ones are reported as cancelled
+    signal?: AbortSignal;
+}
+
+export interface HookResult {
+    kind: 'install' | 'git' | 'command';
+    step: string;
+    status: 'done' | 'skipped' | 'failed' | 'cancelled';
+    detail?: string;
+}
+
+const LOCKFILES: [string, PackageManager][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm']
+];
+
+const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+/**
+ * The package manager of a generated project: its `packageManager` field, then its lockfile,
+ * then the one gen-from was started with (`pnpm dlx`, `yarn dlx`...), npm otherwise.
+ */
+async function detectPackageManager(projectDir: string, env: NodeJS.ProcessEnv = process.env): Promise<PackageManager> {
+    const packageJsonPath = path.join(projectDir, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+        try {
+            const {packageManager} = await fs.readJson(packageJsonPath);
+            const name = typeof packageManager === 'string' ? packageManager.split('@')[0] : '';
+            if (PACKAGE_MANAGERS.includes(name as PackageManager)) {
+                return name as PackageManager;
+            }
+        } catch {
+            // An unreadable package.json is reported by the install step itself
+        }
+    }
+
+    for (const [lockfile, manager] of LOCKFILES) {
+        if (await fs.pathExists(path.join(projectDir, lockfile))) {
+            return manager;
+        }
+    }
+
+    const agent = env.npm_config_user_agent?.split('/')[0];
+    return PACKAGE_MANAGERS.includes(agent as PackageManager) ? agent as PackageManager : 'npm';
+}
+
+function runCommand(command: string, args: string[], cwd: string, options: { shell?: boolean; quiet?: boolean; env?: NodeJS.ProcessEnv; signal?: AbortSignal } = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, {
+            cwd,
+            env: options.env,
+            signal: options.signal,
+            shell: options.shell ?? false,
+            stdio: options.quiet ? 'ignore' : 'inherit'
+        });
+
+        child.on('error', reject);
+        child.on('close', code => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`"${[command, ...args].join(' ')}" exited with code ${code}`));
+            }
+        });
+    });
+}
+
+async function isGitRepository(dir: string): Promise<boolean> {
+    try {
+        await runCommand('git', ['rev-parse', '--is-inside-work-tree'], dir, {quiet: true});
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Run the post-generation steps in order: install, git init with an initial commit, template commands.
+ * A failing step is reported and the next ones still run, a cancelled one stops them all.
+ * The generated files stay either way.
+ */
+async function runHooks(projectDir: string, plan: HookPlan, options: HookOptions): Promise<HookResult[]> {
+    const env = options.env ?? process.env;
+    const onEvent = options.onEvent ?? printEvent;
+    const {signal} = options;
+    const quiet = options.inheritOutput === false;
+    const results: HookResult[] = [];
+
+    async function step(kind: HookResult['kind'], name: string, run: () => Promise<string | void>) {
+        let result: HookResult;
+        if (signal?.aborted) {
+            result = {kind, step: name, status: 'cancelled'};
+            results.push(result);
+            onEvent({type: 'stepResult', result});
+            return;
+        }
+
+        onEvent({type: 'step', kind, name});
+        try {
+            const skipped = await run();
+            result = skipped ? {kind, step: name, status: 'skipped', detail: skipped} : {kind, step: name, status: 'done'};
+        } catch (error) {
+            result = signal?.aborted
+                ? {kind, step: name, status: 'cancelled'}
+                : {kind, step: name, status: 'failed', detail: error instanceof Error ? error.message : String(error)};
+        }
+        results.push(result);
+        onEvent({type: 'stepResult', result});
+    }
+
+    if (plan.install) {
+        const manager = await detectPackageManager(projectDir, env);
+        await step('install', `Install dependencies with ${manager}`, async () => {
+            if (!await fs.pathExists(path.join(projectDir, 'package.json'))) {
+                return 'no package.json';
+            }
+            await runCommand(manager, ['install'], projectDir, {env, quiet, signal});
+        });
+    }
+
+    if (plan.git) {
+        await step('git', 'Initialize a git repository', async () => {
+            if (await isGitRepository(projectDir)) {
+                return 'already inside a git repository';
+            }
+            await runCommand('git', ['init', '--quiet'], projectDir, {env, quiet, signal});
+            await runCommand('git', ['add', '--all'], projectDir, {env, quiet, signal});
+            await runCommand('git', ['commit', '--quiet', '--message', `Initial commit from ${plan.templateName}`], projectDir, {env, quiet, signal});
+        });
+    }
+
+    const runCommands = async () => {
+        for (const command of plan.commands) {
+            await step('command', command, () => runCommand(command, [], projectDir, {shell: true, env, quiet, signal}));
+        }
+    };
+
+    if (plan.commands.length > 0 && signal?.aborted) {
+        // Nothing is asked once cancelled, step() reports every command as cancelled
+        await runCommands();
+    } else if (plan.commands.length > 0) {
+        onEvent({type: 'commands', commands: plan.commands});
+
+        if (await options.confirmCommands(plan.commands)) {
+            await runCommands();
+        } else {
+            onEvent({type: 'commandsSkipped', commands: plan.commands});
+            results.push(...plan.commands.map(command => ({kind: 'command' as const, step: command, status: 'skipped' as const, detail: 'not confirmed'})));
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Commands to suggest once the project is generated, based on what it actually has.
+ */
+async function getNextSteps(projectDir: string, installed: boolean, env: NodeJS.ProcessEnv = process.env): Promise<string[]> {
+    const packageJsonPath = path.join(projectDir, 'package.json');
+    if (!await fs.pathExists(packageJsonPath)) {
+        return [];
+    }
+
+    const manager = await detectPackageManager(projectDir, env);
+    let scripts: Record<string, unknown> = {};
+    try {
+        scripts = (await fs.readJson(packageJsonPath)).scripts ?? {};
+    } catch {
+        // Still worth suggesting the install
+    }
+
+    return [
+        ...(installed ? [] : [`${manager} install`]),
+        ...['dev', 'build', 'test'].filter(script => script in scripts).map(script => script === 'test' ? `${manager} test` : `${manager} run ${script}`)
+    ];
+}
+
+export {
+    detectPackageManager,
+    runCommand,
+    isGitRepository,
+    runHooks,
+    getNextSteps
+};
@@ -0,0 +1,23 @@
+// Public API: `import {generate} from 'gen-from'`
+export {generate, findTemplate} from './generate';
+export type {GenerateOptions, GenerateResult} from './generate';
+export type {EventHandler, GenerateEvent, PatchedFile} from './events';
+export {loadConfig} from './config';
+export {collectInputs, InputError} from './inputs';
+export {processFile} from './files';
+export type {FileReport, RenamedPath} from './files';
+export type {HookResult} from './hooks';
+export {lintTemplate} from './lint';
+export type {LintIssue} from './lint';
+export {readLockfile, LOCKFILE} from './lockfile';
+export type {GenerationRecord, RecordedTemplate} from './lockfile';
+export {ManifestError} from './manifest';
+export {ConflictError} from './merge';
+export type {ConflictPolicy, ConflictResolution, ConflictResolver, WriteSummary} from './merge';
+export type {FileChange} from './preview';
+export {TemplateSyntaxError} from './render';
+export {testTemplate} from './snapshot';
+export type {SnapshotChange, SnapshotResult, TemplateTestOptions} from './snapshot';
+export {SourceAccessError, SourceUnavailableError, validateTemplate} from './sources';
+export {CancelledError} from './transaction';
+export type {AnswerValue, Config, Placeholder, PlaceholderStats, Template, UserInputs} from './types';
@@ -0,0 +1,427 @@
+import prompts from 'prompts';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import type {PromptObject} from 'prompts';
+import {createRenderContext, defaultRenderer, findReferencedKeys, isTruthy} from './render';
+import type {AnswerValue, BuiltinValidator, InputOptions, Placeholder, PlaceholderChoice, PlaceholderType, UserInputs} from './types';
+
+export const ENV_VAR_PREFIX = 'GEN_FROM_VAR_';
+
+// Answers that are missing or invalid and nobody can be asked for
+export class InputError extends Error {
+    constructor(message: string, public missing: string[], public problems: string[]) {
+        super(message);
+        this.name = 'InputError';
+    }
+}
+
+function parseVarAssignments(assignments: string[]): UserInputs {
+    const inputs: UserInputs = {};
+
+    for (const assignment of assignments) {
+        const separatorIndex = assignment.indexOf('=');
+        if (separatorIndex <= 0) {
+            throw new Error(`Invalid --var "${assignment}", expected KEY=value`);
+        }
+        inputs[assignment.slice(0, separatorIndex).trim()] = assignment.slice(separatorIndex + 1);
+    }
+
+    return inputs;
+}
+
+function readEnvInputs(env: NodeJS.ProcessEnv = process.env): UserInputs {
+    const inputs: UserInputs = {};
+
+    for (const [name, value] of Object.entries(env)) {
+        if (name.startsWith(ENV_VAR_PREFIX) && name.length > ENV_VAR_PREFIX.length && value !== undefined) {
+            inputs[name.slice(ENV_VAR_PREFIX.length)] = value;
+        }
+    }
+
+    return inputs;
+}
+
+async function loadAnswersFile(filePath: string): Promise<UserInputs> {
+    if (!await fs.pathExists(filePath)) {
+        throw new Error(`Answers file "${filePath}" not found`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    const ext = path.extname(filePath).toLowerCase();
+
+    let data: unknown;
+    try {
+        data = ext === '.yaml' || ext === '.yml' ? YAML.parse(content) : JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Could not parse answers file "${filePath}": ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`Answers file "${filePath}" must contain an object of KEY: value pairs`);
+    }
+
+    // Values keep their types (booleans, numbers, lists), they are coerced per placeholder later
+    const inputs: UserInputs = {};
+    for (const [key, value] of Object.entries(data)) {
+        inputs[key] = Array.isArray(value) ? value.map(String) : typeof value === 'object' || value === null ? String(value ?? '') : value;
+    }
+
+    return inputs;
+}
+
+/**
+ * Merge the non-interactive answer sources, later sources win:
+ * answers file < GEN_FROM_VAR_* environment variables < --var flags.
+ */
+async function resolvePresetInputs(options: { answersFile?: string; vars?: string[]; env?: NodeJS.ProcessEnv }): Promise<UserInputs> {
+    const fromFile = options.answersFile ? await loadAnswersFile(options.answersFile) : {};
+
+    return {
+        ...fromFile,
+        ...readEnvInputs(options.env),
+        ...parseVarAssignments(options.vars ?? [])
+    };
+}
+
+export const PLACEHOLDER_TYPES: PlaceholderType[] = ['text', 'select', 'multiselect', 'confirm', 'number', 'password'];
+
+const VALIDATORS: Record<BuiltinValidator, { test: (value: string) => boolean; message: string }> = {
+    'npm-name': {
+        test: value => value.length <= 214 && /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(value),
+        message: 'must be a valid npm package name'
+    },
+    semver: {
+        test: value => /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/.test(value),
+        message: 'must be a semantic version like 1.0.0'
+    },
+    email: {
+        test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+        message: 'must be an email address'
+    },
+    url: {
+        test: value => {
+            try {
+                return ['http:', 'https:'].includes(new URL(value).protocol);
+            } catch {
+                return false;
+            }
+        },
+        message: 'must be an http(s) URL'
+    }
+};
+
+export const BUILTIN_VALIDATORS = Object.keys(VALIDATORS) as BuiltinValidator[];
+
+function normalizeChoices(placeholder: Placeholder): PlaceholderChoice[] {
+    return (placeholder.choices ?? []).map(choice => typeof choice === 'string' ? {value: choice} : choice);
+}
+
+function emptyAnswer(placeholder: Placeholder): AnswerValue {
+    switch (placeholder.type) {
+        case 'confirm':
+            return false;
+        case 'multiselect':
+            return [];
+        default:
+            return '';
+    }
+}
+
+/**
+ * Convert an answer from --var, env, an answers file or a default to the placeholder's type.
+ */
+function coerceAnswer(placeholder: Placeholder, value: unknown): AnswerValue {
+    switch (placeholder.type) {
+        case 'confirm': {
+            if (typeof value === 'boolean') {
+                return value;
+            }
+            const text = String(value ?? '').trim().toLowerCase();
+            if (['true', 'yes', 'y', '1', 'on'].includes(text)) {
+                return true;
+            }
+            if (['false', 'no', 'n', '0', 'off', ''].includes(text)) {
+                return false;
+            }
+            throw new Error(`${placeholder.key} must be yes or no, got "${value}"`);
+        }
+        case 'number': {
+            if (value === '' || value === undefined || value === null) {
+                return '';
+            }
+            const number = Number(value);
+            if (isNaN(number)) {
+                throw new Error(`${placeholder.key} must be a number, got "${value}"`);
+            }
+            return number;
+        }
+        case 'multiselect':
+            if (Array.isArray(value)) {
+                return value.map(String);
+            }
+            return String(value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+        default:
+            return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+    }
+}
+
+function validateAnswer(placeholder: Placeholder, value: AnswerValue): true | string {
+    const isEmpty = value === '' || (Array.isArray(value) && value.length === 0) || (typeof value === 'string' && !value.trim());
+
+    if (isEmpty) {
+        return placeholder.required ? `${placeholder.key} is required` : true;
+    }
+
+    if (placeholder.type === 'select' || placeholder.type === 'multiselect') {
+        const allowed = normalizeChoices(placeholder).map(choice => choice.value);
+        const invalid = (Array.isArray(value) ? value : [String(value)]).filter(item => !allowed.includes(item));
+        if (invalid.length > 0) {
+            return `${placeholder.key} must be one of ${allowed.join(', ')}, got "${invalid.join(', ')}"`;
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (placeholder.pattern && !new RegExp(placeholder.pattern).test(value)) {
+            return `${placeholder.key} must match ${placeholder.pattern}`;
+        }
+        if (placeholder.validate) {
+            const validator = VALIDATORS[placeholder.validate];
+            if (!validator.test(value)) {
+                return `${placeholder.key} ${validator.message}`;
+            }
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Evaluate a `when` condition against earlier answers:
+ * `KEY` (truthy), `!KEY`, `KEY == value` and `KEY != value`.
+ * For multiselect answers `==` checks whether the value was selected.
+ */
+function evaluateCondition(condition: string, answers: UserInputs): boolean {
+    const comparison = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*(==|!=)\s*(.*?)\s*$/.exec(condition);
+    if (comparison) {
+        const [, key, operator, rawExpected] = comparison;
+        const expected = rawExpected.replace(/^(['"])(.*)\1$/, '$2');
+        const actual = answers[key];
+        const matches = Array.isArray(actual) ? actual.includes(expected) : String(actual ?? '') === expected;
+        return operator === '==' ? matches : !matches;
+    }
+
+    const negated = condition.trim().startsWith('!');
+    const key = condition.trim().replace(/^!\s*/, '');
+    return isTruthy(answers[key]) !== negated;
+}
+
+function toPromptQuestion(placeholder: Placeholder): PromptObject {
+    const type = placeholder.type ?? 'text';
+    const initial = placeholder.default === undefined ? emptyAnswer(placeholder) : coerceAnswer(placeholder, placeholder.default);
+    const question: PromptObject = {
+        type,
+        name: placeholder.key,
+        message: placeholder.prompt
+    };
+
+    switch (type) {
+        case 'confirm':
+            return {...question, initial: initial as boolean};
+        case 'select': {
+            const choices = normalizeChoices(placeholder);
+            return {
+                ...question,
+                choices: choices.map(choice => ({title: choice.title ?? choice.value, value: choice.value, description: choice.description})),
+                initial: Math.max(0, choices.findIndex(choice => choice.value === initial))
+            };
+        }
+        case 'multiselect':
+            return {
+                ...question,
+                choices: normalizeChoices(placeholder).map(choice => ({
+                    title: choice.title ?? choice.value,
+                    value: choice.value,
+                    description: choice.description,
+                    selected: (initial as string[]).includes(choice.value)
+                })),
+                min: placeholder.required ? 1 : undefined,
+                instructions: false
+            } as PromptObject;
+        case 'number':
+            return {
+                ...question,
+                initial: initial === '' ? undefined : initial as number,
+                float: true,
+                validate: (value: number | string) => validateAnswer(placeholder, value)
+            };
+        default:
+            return {
+                ...question,
+                initial: initial as string,
+                validate: (value: string) => validateAnswer(placeholder, value)
+            };
+    }
+}
+
+// Keys a placeholder's default, `derive` or `when` refers to
+function placeholderDependencies(placeholder: Placeholder): string[] {
+    const templates = [placeholder.derive, typeof placeholder.default === 'string' ? placeholder.default : undefined]
+        .filter((template): template is string => Boolean(template));
+    const keys = templates.flatMap(findReferencedKeys);
+
+    if (placeholder.when) {
+        keys.push(placeholder.when.replace(/^\s*!?\s*/, '').split(/\s*[!=]=/)[0].trim());
+    }
+
+    return keys;
+}
+
+/**
+ * Sort placeholders so every one comes after the placeholders its default, `derive` or `when` refers to,
+ * otherwise keeping the declared order. Throws on circular references.
+ */
+function orderPlaceholders(placeholders: Placeholder[]): Placeholder[] {
+    const byKey = new Map(placeholders.map(placeholder => [placeholder.key, placeholder]));
+    const ordered: Placeholder[] = [];
+    const done = new Set<string>();
+    const visiting: string[] = [];
+
+    function visit(placeholder: Placeholder) {
+        if (done.has(placeholder.key)) {
+            return;
+        }
+        if (visiting.includes(placeholder.key)) {
+            const cycle = [...visiting.slice(visiting.indexOf(placeholder.key)), placeholder.key];
+            throw new Error(`Circular placeholder dependency: ${cycle.join(' -> ')}`);
+        }
+
+        visiting.push(placeholder.key);
+        for (const key of placeholderDependencies(placeholder)) {
+            const dependency = byKey.get(key);
+            if (dependency && key !== placeholder.key) {
+                visit(dependency);
+            }
+        }
+        visiting.pop();
+
+        done.add(placeholder.key);
+        ordered.push(placeholder);
+    }
+
+    placeholders.forEach(visit);
+    return ordered;
+}
+
+// Render templated defaults like "@{{USERNAME}}/{{PROJECT_NAME}}" against the answers so far
+function resolveDefault(placeholder: Placeholder, answers: UserInputs): AnswerValue {
+    const value = placeholder.derive ?? placeholder.default;
+    if (typeof value !== 'string') {
+        return value ?? emptyAnswer(placeholder);
+    }
+    return defaultRenderer.render(value, createRenderContext(answers), {file: `placeholder ${placeholder.key}`});
+}
+
+async function collectInputs(placeholders: Placeholder[], options: InputOptions = {presets: {}, yes: false, interactive: true}): Promise<UserInputs | null> {
+    const inputs: UserInputs = {};
+    const problems: string[] = [];
+    const missing: string[] = [];
+    const nonInteractive = options.yes || !options.interactive;
+    let hasPrompted = false;
+
+    // One placeholder at a time, so `when` conditions and templated defaults can see the answers before them
+    for (const original of orderPlaceholders(placeholders)) {
+        const {key} = original;
+        const placeholder = {...original, default: resolveDefault(original, inputs)};
+
+        if (placeholder.when && !evaluateCondition(placeholder.when, inputs)) {
+            inputs[key] = emptyAnswer(placeholder);
+            continue;
+        }
+
+        const preset = options.presets[key];
+        // Derived placeholders are never asked, but --var and friends can still override them
+        const useDefault = preset === undefined && (Boolean(placeholder.derive) || options.yes || (nonInteractive && !placeholder.required));
+
+        if (preset !== undefined || useDefault) {
+            try {
+                const value = coerceAnswer(placeholder, preset !== undefined ? preset : placeholder.default);
+                const valid = validateAnswer(placeholder, value);
+                if (valid === true) {
+                    inputs[key] = value;
+                } else if (nonInteractive || preset === undefined) {
+                    problems.push(valid);
+                } else {
+                    // An invalid --var value can still be fixed at the prompt
+                    console.log(chalk.yellow(`⚠ ${valid}`));
+                    const answer = await askPlaceholder(placeholder);
+                    if (answer === undefined) {
+                        return null;
+                    }
+                    inputs[key] = answer;
+                }
+            } catch (error) {
+                problems.push(error instanceof Error ? error.message : String(error));
+            }
+            continue;
+        }
+
+        if (nonInteractive) {
+            missing.push(key);
+            continue;
+        }
+
+        if (!hasPrompted) {
+            console.log(chalk.yellow('\nProvide project information:'));
+            hasPrompted = true;
+        }
+
+        const answer = await askPlaceholder(placeholder);
+        if (answer === undefined) {
+            return null;
+        }
+        inputs[key] = answer;
+    }
+
+    if (missing.length > 0 || problems.length > 0) {
+        // Nobody can answer a prompt here, so report everything that is wrong at once
+        const lines = [
+            ...missing.length > 0 ? [`Missing required placeholders: ${missing.join(', ')}`] : [],
+            ...problems
+        ];
+        throw new InputError(`${lines.join('\n')}\n`
+            + `Provide them with --var KEY=value, --answers <file> or ${ENV_VAR_PREFIX}<KEY> environment variables`, missing, problems);
+    }
+
+    return inputs;
+}
+
+async function askPlaceholder(placeholder: Placeholder): Promise<AnswerValue | undefined> {
+    let cancelled = false;
+    const response = await prompts(toPromptQuestion(placeholder), {
+        onCancel: () => {
+            cancelled = true;
+            return false;
+        }
+    });
+
+    if (cancelled || response[placeholder.key] === undefined) {
+        return undefined;
+    }
+
+    return coerceAnswer(placeholder, response[placeholder.key]);
+}
+
+export {
+    parseVarAssignments,
+    coerceAnswer,
+    validateAnswer,
+    evaluateCondition,
+    readEnvInputs,
+    loadAnswersFile,
+    resolvePresetInputs,
+    placeholderDependencies,
+    orderPlaceholders,
+    collectInputs
+};
@@ -0,0 +1,160 @@
+import fs from 'fs-extra';
+import {applyEdits, modify, parseTree} from 'jsonc-parser';
+import type {FormattingOptions, JSONPath, Node, ParseError} from 'jsonc-parser';
+import path from 'path';
+import {isDeepStrictEqual} from 'util';
+import type {EventHandler} from './events';
+import type {FileReport} from './files';
+import type {Template} from './types';
+
+// A rendered template: the directory it was rendered in and the files it has there
+export interface RenderedLayer {
+    name: string;
+    dir: string;
+    reports: FileReport[];
+}
+
+/**
+ * Put a template and its layers in the order they are merged: the template it extends first, then the
+ * template itself, its own layers and finally the `extra` ones, each expanded the same way.
+ * A template reached twice is merged once, at its first place.
+ */
+function resolveLayers(template: Template, findTemplate: (name: string) => Template, extra: string[] = []): Template[] {
+    const expand = (current: Template, chain: string[]): Template[] => {
+        if (chain.includes(current.name)) {
+            throw new Error(`Circular template extends: ${[...chain, current.name].join(' -> ')}`);
+        }
+
+        const nextChain = [...chain, current.name];
+        return [
+            ...current.extends ? expand(findTemplate(current.extends), nextChain) : [],
+            current,
+            ...(current.layers ?? []).flatMap(layer => expand(findTemplate(layer), nextChain))
+        ];
+    };
+
+    const ordered = [expand(template, []), ...extra.map(layer => expand(findTemplate(layer), []))].flat();
+    return ordered.filter((layer, index) => ordered.findIndex(other => other.repo === layer.repo) === index);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Define a key rather than assigning it, so a "__proto__" key stays a key instead of replacing the prototype
+function defineKey(object: Record<string, unknown>, key: string, value: unknown): void {
+    Object.defineProperty(object, key, {value, enumerable: true, writable: true, configurable: true});
+}
+
+/**
+ * Merge two JSON values: objects key by key, arrays by adding the items the first one lacks,
+ * anything else is replaced by the second value.
+ */
+function deepMerge(base: unknown, layer: unknown): unknown {
+    if (Array.isArray(base) && Array.isArray(layer)) {
+        return [...base, ...layer.filter(item => !base.some(existing => isDeepStrictEqual(existing, item)))];
+    }
+    if (isPlainObject(base) && isPlainObject(layer)) {
+        const merged = {...base};
+        for (const [key, value] of Object.entries(layer)) {
+            defineKey(merged, key, Object.prototype.hasOwnProperty.call(base, key) ? deepMerge(base[key], value) : value);
+        }
+        return merged;
+    }
+    return layer;
+}
+
+// The value of a parsed JSON node. jsonc-parser's own parse() assigns keys and loses "__proto__"
+function toValue(node: Node): unknown {
+    if (node.type === 'object') {
+        const object: Record<string, unknown> = {};
+        for (const [key, value] of (node.children ?? []).map(property => property.children ?? [])) {
+            defineKey(object, key.value, value ? toValue(value) : undefined);
+        }
+        return object;
+    }
+    return node.type === 'array' ? (node.children ?? []).map(toValue) : node.value;
+}
+
+function parseJsonText(text: string): unknown {
+    const errors: ParseError[] = [];
+    const tree = parseTree(text, errors, {allowTrailingComma: true});
+    return errors.length > 0 || !tree ? undefined : toValue(tree);
+}
+
+// Edit `text` so the value at `path` becomes the deep merge of `base` and `layer`, object keys one by one
+function applyMerge(text: string, path: JSONPath, base: unknown, layer: unknown, formattingOptions: FormattingOptions): string {
+    if (isPlainObject(base) && isPlainObject(layer)) {
+        for (const [key, value] of Object.entries(layer)) {
+            text = Object.prototype.hasOwnProperty.call(base, key)
+                ? applyMerge(text, [...path, key], base[key], value, formattingOptions)
+                : applyEdits(text, modify(text, [...path, key], value, {formattingOptions}));
+        }
+        return text;
+    }
+
+    const merged = deepMerge(base, layer);
+    return isDeepStrictEqual(base, merged) ? text : applyEdits(text, modify(text, path, merged, {formattingOptions}));
+}
+
+/**
+ * Deep-merge the text of two JSON files, comments allowed. The values of the second are edited
+ * into the text of the first, which keeps its comments and indentation. Null when either is not valid JSON.
+ */
+function mergeJsonText(base: string, layer: string): string | null {
+    const baseValue = parseJsonText(base);
+    const layerValue = parseJsonText(layer);
+    if (baseValue === undefined || layerValue === undefined) {
+        return null;
+    }
+
+    const indent = base.match(/^[ \t]+(?=\S)/m)?.[0] ?? '  ';
+    return applyMerge(base, [], baseValue, layerValue, {
+        insertSpaces: !indent.startsWith('\t'),
+        tabSize: indent.startsWith('\t') ? 1 : indent.length,
+        eol: base.includes('\r\n') ? '\r\n' : '\n'
+    });
+}
+
+/**
+ * Merge a rendered layer into the directory of the layers before it. Files of the layer replace theirs,
+ * except JSON files both have, which are deep-merged. Returns the reports of the merged directory.
+ */
+async function mergeLayer(base: RenderedLayer, layer: RenderedLayer, onEvent: EventHandler = () => undefined): Promise<FileReport[]> {
+    const reports = base.reports.map(report => ({...report}));
+
+    for (const report of layer.reports) {
+        const existing = reports.find(other => other.path === report.path);
+        const source = path.join(layer.dir, report.path);
+        const target = path.join(base.dir, report.path);
+
+        if (!existing) {
+            await fs.copy(source, target);
+            reports.push({...report});
+            continue;
+        }
+
+        if (path.extname(report.path) === '.json') {
+            const merged = mergeJsonText(await fs.readFile(target, 'utf-8'), await fs.readFile(source, 'utf-8'));
+            if (merged !== null) {
+                await fs.writeFile(target, merged, 'utf-8');
+                existing.replacements += report.replacements;
+                continue;
+            }
+            onEvent({type: 'warning', message: `${report.path} could not be merged with the one from ${layer.name}, which replaces it`});
+        }
+
+        await fs.copy(source, target, {overwrite: true});
+        existing.replacements = report.replacements;
+    }
+
+    return reports;
+}
+
+export {
+    isPlainObject,
+    resolveLayers,
+    deepMerge,
+    mergeJsonText,
+    mergeLayer
+};
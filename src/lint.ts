@@ -0,0 +1,159 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import {createFileMatcher, decodeText, findEmbeddedKeys, getAllFiles, isBinaryContent} from './files';
+import {placeholderDependencies} from './inputs';
+import {createIgnoreMatcher, loadManifest, ManifestError, MANIFEST_FILE, mergePlaceholders} from './manifest';
+import {DEFAULT_PATCHES} from './patch';
+import {createRenderContext, DEFAULT_FILTERS, escapeRegExp, findReferencedKeys, listTemplateTags, TemplateSyntaxError} from './render';
+import type {TemplateTag} from './render';
+import type {Manifest, Placeholder} from './types';
+
+export interface LintIssue {
+    // Errors break generation or leave tags in the output, warnings are worth a look
+    severity: 'error' | 'warning';
+    // Path relative to the template
+    file: string;
+    line?: number;
+    message: string;
+}
+
+// Text outside of tags, where keys are only replaced in bare-key templates
+function stripTags(content: string, [open, close]: [string, string]): string {
+    return content.split(open).map((part, i) => {
+        const end = part.indexOf(close);
+        return i === 0 || end === -1 ? part : part.slice(end + close.length);
+    }).join('');
+}
+
+/**
+ * Check a template before publishing it: malformed tags, {{KEY}} tags no placeholder declares,
+ * placeholders its gen-from.json declares that nothing uses, and keys written without delimiters:
+ * they are not replaced, or for bare-key templates are replaced inside longer names too.
+ * Global placeholders are shared by every template, so they are never reported as unused. Nothing is written.
+ */
+async function lintTemplate(templateDir: string, globalPlaceholders: Placeholder[] = []): Promise<LintIssue[]> {
+    let manifest: Manifest;
+    try {
+        manifest = await loadManifest(templateDir);
+    } catch (error) {
+        if (error instanceof ManifestError) {
+            return [{severity: 'error', file: MANIFEST_FILE, message: error.message}];
+        }
+        throw error;
+    }
+
+    const placeholders = mergePlaceholders(globalPlaceholders, manifest.placeholders);
+    const declared = new Set([...placeholders.map(placeholder => placeholder.key), ...Object.keys(createRenderContext({}))]);
+    // PROJECT_NAME names the target directory, even when no file uses it
+    const used = new Set(['PROJECT_NAME']);
+    const issues: LintIssue[] = [];
+
+    const [open, close] = manifest.delimiters;
+    const checkTags = (content: string, file: string) => {
+        let tags: TemplateTag[];
+        try {
+            tags = listTemplateTags(content, file, manifest.delimiters);
+        } catch (error) {
+            if (error instanceof TemplateSyntaxError) {
+                issues.push({severity: 'error', file, line: error.line, message: error.reason});
+                return;
+            }
+            throw error;
+        }
+
+        for (const tag of tags) {
+            used.add(tag.key);
+            for (const filter of tag.filters.filter(name => !Object.prototype.hasOwnProperty.call(DEFAULT_FILTERS, name))) {
+                issues.push({severity: 'error', file, line: tag.line, message: `unknown filter "${filter}"`});
+            }
+            if (!declared.has(tag.key) && !tag.inEach) {
+                issues.push({severity: 'error', file, line: tag.line, message: `${open}${tag.key}${close} is not a declared placeholder, it would be left as it is`});
+            }
+        }
+        const keys = placeholders.map(placeholder => placeholder.key);
+        if (!manifest.bareKeys) {
+            // Likely written for the legacy syntax, once per key and file
+            const lines = content.split('\n').map(text => stripTags(text, manifest.delimiters));
+            for (const key of keys) {
+                const word = new RegExp(`(?<![A-Za-z0-9_])${escapeRegExp(key)}(?![A-Za-z0-9_])`);
+                const index = lines.findIndex(text => word.test(text));
+                if (index !== -1) {
+                    issues.push({severity: 'warning', file, line: index + 1, message: `${key} is written without delimiters and is not replaced, write ${open}${key}${close} or set "bareKeys": true`});
+                }
+            }
+            return;
+        }
+        // Bare keys are replaced too, e.g. PROJECT_NAME in a README, including inside longer names
+        keys.filter(key => content.includes(key)).forEach(key => used.add(key));
+        for (const {key, identifier, line} of findEmbeddedKeys(content, keys)) {
+            issues.push({severity: 'warning', file, line, message: `bare key ${key} is replaced inside ${identifier}`});
+        }
+    };
+
+    const isIgnored = await createIgnoreMatcher(templateDir, manifest.ignore);
+    const isVerbatim = manifest.verbatim.length > 0 ? createFileMatcher({include: manifest.verbatim, exclude: []}) : () => false;
+    const isProcessed = createFileMatcher(manifest.process);
+
+    for (const filePath of await getAllFiles(templateDir)) {
+        const relativePath = path.relative(templateDir, filePath);
+        const segments = relativePath.split(path.sep);
+        // A file is left out when it, or one of its directories, is ignored
+        if (segments.some((_, i) => isIgnored(segments.slice(0, i + 1).join('/'), i < segments.length - 1))) {
+            continue;
+        }
+        if (isVerbatim(relativePath)) {
+            continue;
+        }
+
+        for (const segment of segments) {
+            for (const [, key] of segment.matchAll(/__([A-Za-z][A-Za-z0-9_]*?)__/g)) {
+                used.add(key);
+            }
+            checkTags(segment, relativePath);
+        }
+
+        const buffer = await fs.readFile(filePath);
+        if (isProcessed(relativePath) && !isBinaryContent(buffer)) {
+            checkTags(decodeText(buffer).text, relativePath);
+        }
+    }
+
+    // Placeholders can also be used by other placeholders, template commands and patches
+    const patches = [...manifest.defaultPatches ? DEFAULT_PATCHES : [], ...manifest.patches];
+    const manifestKeys = [
+        ...placeholders.flatMap(placeholderDependencies),
+        ...manifest.postGenerate.flatMap(findReferencedKeys),
+        ...findReferencedKeys(JSON.stringify(patches))
+    ];
+    manifestKeys.forEach(key => used.add(key));
+
+    for (const {key} of manifest.placeholders) {
+        if (!used.has(key)) {
+            issues.push({severity: 'warning', file: MANIFEST_FILE, message: `placeholder ${key} is declared but never used`});
+        }
+    }
+
+    return issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+}
+
+function printLintIssues(issues: LintIssue[]): void {
+    for (const issue of issues) {
+        const location = chalk.cyan(`${issue.file}${issue.line ? `:${issue.line}` : ''}`);
+        const label = issue.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+        console.log(`  ${location}  ${label}  ${issue.message}`);
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    if (issues.length === 0) {
+        console.log(chalk.green('✓ No problems found'));
+    } else {
+        console.log(chalk.dim(`\n${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`));
+    }
+}
+
+export {
+    lintTemplate,
+    printLintIssues
+};
@@ -0,0 +1,117 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {isPlainObject} from './layers';
+import type {Placeholder, UserInputs} from './types';
+
+// Written into every generated project, the record of what it was generated from
+export const LOCKFILE = '.gen-from.json';
+
+export interface RecordedTemplate {
+    name: string;
+    // Template source as describeSource() prints it, ref included
+    source: string;
+    // Commit the files came from, unset for local templates
+    commit?: string;
+}
+
+export interface GenerationRecord {
+    template: RecordedTemplate;
+    // Every template merged into the project in order, the template itself included, when it has layers
+    layers?: RecordedTemplate[];
+    // Version of gen-from that generated the project
+    genFrom: string;
+    generatedAt: string;
+    // Answers to the template's placeholders, without secrets and derived values
+    answers: UserInputs;
+}
+
+function recordTemplate(template: RecordedTemplate): RecordedTemplate {
+    return {name: template.name, source: template.source, ...template.commit ? {commit: template.commit} : {}};
+}
+
+function isRecordedTemplate(template: unknown): template is RecordedTemplate {
+    return isPlainObject(template) && typeof template.name === 'string' && typeof template.source === 'string'
+        && (template.commit === undefined || typeof template.commit === 'string');
+}
+
+function isUserInputs(answers: unknown): answers is UserInputs {
+    return isPlainObject(answers) && Object.values(answers).every(value => ['string', 'number', 'boolean'].includes(typeof value)
+        || (Array.isArray(value) && value.every(item => typeof item === 'string')));
+}
+
+function isSecret(placeholder: Placeholder): boolean {
+    return placeholder.secret ?? placeholder.type === 'password';
+}
+
+/**
+ * Build the record of a generation. Only answers to asked placeholders are kept:
+ * derived values can be computed again, and may be computed from a secret.
+ */
+function createGenerationRecord(
+    template: RecordedTemplate,
+    genFrom: string,
+    placeholders: Placeholder[],
+    userInputs: UserInputs,
+    layers: RecordedTemplate[] = []
+): GenerationRecord {
+    const answers: UserInputs = {};
+    for (const placeholder of placeholders) {
+        if (!placeholder.derive && !isSecret(placeholder) && userInputs[placeholder.key] !== undefined) {
+            answers[placeholder.key] = userInputs[placeholder.key];
+        }
+    }
+
+    return {
+        template: recordTemplate(template),
+        ...layers.length > 1 ? {layers: layers.map(recordTemplate)} : {},
+        genFrom,
+        generatedAt: new Date().toISOString(),
+        answers
+    };
+}
+
+async function writeLockfile(projectDir: string, record: GenerationRecord): Promise<void> {
+    await fs.outputFile(path.join(projectDir, LOCKFILE), `${JSON.stringify(record, null, 2)}\n`);
+}
+
+/**
+ * Read the record of a generated project, null when it has none.
+ */
+async function readLockfile(projectDir: string): Promise<GenerationRecord | null> {
+    const lockfilePath = path.join(projectDir, LOCKFILE);
+    if (!await fs.pathExists(lockfilePath)) {
+        return null;
+    }
+
+    let raw: unknown;
+    try {
+        raw = await fs.readJson(lockfilePath);
+    } catch (error) {
+        throw new Error(`Invalid ${LOCKFILE}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!isPlainObject(raw) || !isRecordedTemplate(raw.template)) {
+        throw new Error(`Invalid ${LOCKFILE}: "template" must have a "name" and a "source"`);
+    }
+    const layers = raw.layers;
+    if (layers !== undefined && (!Array.isArray(layers) || !layers.every(isRecordedTemplate))) {
+        throw new Error(`Invalid ${LOCKFILE}: every entry of "layers" must have a "name" and a "source"`);
+    }
+    if (!isUserInputs(raw.answers)) {
+        throw new Error(`Invalid ${LOCKFILE}: "answers" must be an object of strings, numbers, booleans and lists of strings`);
+    }
+
+    return {
+        template: recordTemplate(raw.template),
+        ...layers ? {layers: layers.map(recordTemplate)} : {},
+        genFrom: String(raw.genFrom ?? ''),
+        generatedAt: String(raw.generatedAt ?? ''),
+        answers: raw.answers
+    };
+}
+
+export {
+    createGenerationRecord,
+    writeLockfile,
+    readLockfile
+};
@@ -0,0 +1,313 @@
+import fs from 'fs-extra';
+import ignore from 'ignore';
+import path from 'path';
+import picomatch from 'picomatch';
+import {BUILTIN_VALIDATORS, PLACEHOLDER_TYPES} from './inputs';
+import {isPlainObject} from './layers';
+import {LOCKFILE} from './lockfile';
+import {parsePatchPath} from './patch';
+import {DEFAULT_DELIMITERS} from './render';
+import type {AnswerValue, BuiltinValidator, Manifest, ManifestPlaceholder, Patch, Placeholder, PlaceholderChoice, PlaceholderType} from './types';
+
+export const MANIFEST_FILE = 'gen-from.json';
+
+export class ManifestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ManifestError';
+    }
+}
+
+// Files a template never ships, in gitignore syntax
+export const IGNORE_FILE = '.genfromignore';
+
+// npm drops these from published packages, so templates ship them under another name
+export const DEFAULT_RENAMES: Record<string, string> = {
+    _gitignore: '.gitignore',
+    _npmrc: '.npmrc',
+    _gitattributes: '.gitattributes'
+};
+
+async function loadManifest(templateDir: string): Promise<Manifest> {
+    const manifestPath = path.join(templateDir, MANIFEST_FILE);
+
+    if (!await fs.pathExists(manifestPath)) {
+        return {placeholders: [], ignore: [], messages: [], process: {include: [], exclude: []}, verbatim: [], rename: {...DEFAULT_RENAMES}, install: false, git: false, postGenerate: [], patches: [], defaultPatches: true, delimiters: DEFAULT_DELIMITERS, bareKeys: false};
+    }
+
+    let raw: unknown;
+    try {
+        raw = await fs.readJson(manifestPath);
+    } catch (error) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!isPlainObject(raw)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: expected an object`);
+    }
+
+    const rawPlaceholders: unknown = raw.placeholders ?? [];
+    if (!Array.isArray(rawPlaceholders) || rawPlaceholders.some((p: unknown) => !isPlainObject(p) || typeof p.key !== 'string' || !p.key)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "placeholders" must be an array of objects with a "key"`);
+    }
+    const placeholders = rawPlaceholders.map(toPlaceholder);
+
+    // "derived": {"KEY": "template"} is shorthand for {"key": "KEY", "derive": "template"}
+    if (raw.derived !== undefined) {
+        if (!isPlainObject(raw.derived) || Object.values(raw.derived).some(value => typeof value !== 'string')) {
+            throw new ManifestError(`Invalid ${MANIFEST_FILE}: "derived" must map keys to template strings`);
+        }
+        for (const [key, derive] of Object.entries(raw.derived as Record<string, string>)) {
+            placeholders.push({key, derive});
+        }
+    }
+
+    const rename = raw.rename ?? {};
+    if (!isFileNameMap(rename)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "rename" must map file names to file names`);
+    }
+
+    const delimiters = raw.delimiters ?? DEFAULT_DELIMITERS;
+    if (!isDelimiters(delimiters)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "delimiters" must be an opening and a closing delimiter, e.g. ["<%", "%>"]`);
+    }
+
+    const fileFilter = raw.process ?? {};
+    if (!isPlainObject(fileFilter)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "process" must be an object with "include" and/or "exclude"`);
+    }
+
+    return {
+        placeholders,
+        ignore: toStringArray(raw.ignore, 'ignore'),
+        messages: toStringArray(raw.messages, 'messages'),
+        process: {
+            include: toStringArray(fileFilter.include, 'process.include'),
+            exclude: toStringArray(fileFilter.exclude, 'process.exclude')
+        },
+        verbatim: toStringArray(raw.verbatim, 'verbatim'),
+        rename: {...DEFAULT_RENAMES, ...rename},
+        install: toBoolean(raw.install, 'install', false),
+        git: toBoolean(raw.git, 'git', false),
+        postGenerate: toStringArray(raw.postGenerate, 'postGenerate'),
+        patches: toPatches(raw.patches),
+        defaultPatches: toBoolean(raw.defaultPatches, 'defaultPatches', true),
+        delimiters,
+        bareKeys: toBoolean(raw.bareKeys, 'bareKeys', false)
+    };
+}
+
+// Check each field of a placeholder from gen-from.json, so a wrong one fails here with its name rather than later
+function toPlaceholder(raw: Record<string, unknown>): ManifestPlaceholder {
+    const invalid = (problem: string) => new ManifestError(`Invalid ${MANIFEST_FILE}: placeholder ${raw.key} ${problem}`);
+
+    for (const field of ['prompt', 'pattern', 'when', 'derive']) {
+        if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+            throw invalid(`has a "${field}" that is not a string`);
+        }
+    }
+    for (const field of ['required', 'secret']) {
+        if (raw[field] !== undefined && typeof raw[field] !== 'boolean') {
+            throw invalid(`has a "${field}" that is not true or false`);
+        }
+    }
+    if (raw.default !== undefined && !isAnswerValue(raw.default)) {
+        throw invalid('has a "default" that is not a string, number, boolean or array of strings');
+    }
+    if (raw.type !== undefined && !PLACEHOLDER_TYPES.includes(raw.type as PlaceholderType)) {
+        throw invalid(`has unknown type "${raw.type}"`);
+    }
+    if (raw.validate !== undefined && !BUILTIN_VALIDATORS.includes(raw.validate as BuiltinValidator)) {
+        throw invalid(`has unknown validator "${raw.validate}"`);
+    }
+    if (raw.choices !== undefined && !isChoiceList(raw.choices)) {
+        throw invalid('has "choices" that are not strings or objects with a "value"');
+    }
+    if ((raw.type === 'select' || raw.type === 'multiselect') && !(raw.choices as unknown[] | undefined)?.length) {
+        throw invalid('needs "choices"');
+    }
+    if (typeof raw.pattern === 'string') {
+        try {
+            new RegExp(raw.pattern);
+        } catch (error) {
+            throw invalid(`has an invalid "pattern": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Every field a placeholder has was checked above
+    return raw as ManifestPlaceholder;
+}
+
+function isAnswerValue(value: unknown): value is AnswerValue {
+    return ['string', 'number', 'boolean'].includes(typeof value) || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+function isChoiceList(value: unknown): value is Array<string | PlaceholderChoice> {
+    return Array.isArray(value) && value.every(choice => typeof choice === 'string'
+        || (isPlainObject(choice) && typeof choice.value === 'string'
+            && ['title', 'description'].every(field => choice[field] === undefined || typeof choice[field] === 'string')));
+}
+
+function isFileNameMap(value: unknown): value is Record<string, string> {
+    return isPlainObject(value) && Object.entries(value).every(([from, to]) => isFileName(from) && isFileName(to));
+}
+
+// Tag delimiters are matched literally and cannot hold whitespace, which separates keys from filters
+function isDelimiters(value: unknown): value is [string, string] {
+    return Array.isArray(value) && value.length === 2
+        && value.every((delimiter: unknown) => typeof delimiter === 'string' && delimiter.trim() !== '' && !/\s/.test(delimiter));
+}
+
+function toBoolean(value: unknown, field: string, fallback: boolean): boolean {
+    if (value === undefined) {
+        return fallback;
+    }
+    if (typeof value !== 'boolean') {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "${field}" must be true or false`);
+    }
+    return value;
+}
+
+function toPatches(value: unknown): Patch[] {
+    if (value === undefined) {
+        return [];
+    }
+
+    const isMap = (map: unknown): map is Record<string, unknown> | undefined => map === undefined || isPlainObject(map);
+    if (!Array.isArray(value)) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "patches" must be an array`);
+    }
+
+    return value.map((patch: unknown, i): Patch => {
+        if (!isPlainObject(patch) || typeof patch.file !== 'string' || !patch.file) {
+            throw new ManifestError(`Invalid ${MANIFEST_FILE}: patch ${i + 1} needs a "file" glob`);
+        }
+        if (!isMap(patch.set) || !isMap(patch.replace) || !isMap(patch.append)
+            || Object.values(patch.append ?? {}).some(items => !Array.isArray(items))) {
+            throw new ManifestError(`Invalid ${MANIFEST_FILE}: patch ${i + 1} must map paths to values in "set" and "replace", and to arrays in "append"`);
+        }
+
+        const paths = [...Object.keys(patch.set ?? {}), ...Object.keys(patch.replace ?? {}), ...Object.keys(patch.append ?? {}),
+            ...toStringArray(patch.remove, `patches[${i}].remove`)];
+        for (const rawPath of paths) {
+            try {
+                parsePatchPath(rawPath);
+            } catch (error) {
+                throw new ManifestError(`Invalid ${MANIFEST_FILE}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        return {
+            file: patch.file,
+            set: patch.set,
+            replace: patch.replace,
+            // Every value was checked to be an array
+            append: patch.append as Record<string, unknown[]> | undefined,
+            remove: patch.remove === undefined ? undefined : toStringArray(patch.remove, `patches[${i}].remove`)
+        };
+    });
+}
+
+function isFileName(name: unknown): name is string {
+    return typeof name === 'string' && name !== '' && name !== '.' && name !== '..' && !/[\/\\]/.test(name);
+}
+
+function toStringArray(value: unknown, field: string): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (typeof value === 'string') {
+        return [value];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new ManifestError(`Invalid ${MANIFEST_FILE}: "${field}" must be a string or an array of strings`);
+    }
+    return value;
+}
+
+function mergePlaceholders(globalPlaceholders: Placeholder[], manifestPlaceholders: ManifestPlaceholder[]): Placeholder[] {
+    const merged = globalPlaceholders.map(placeholder => ({...placeholder}));
+
+    for (const override of manifestPlaceholders) {
+        const existing = merged.find(p => p.key === override.key);
+        if (existing) {
+            // Template values win, but keep global fields the template didn't set
+            Object.assign(existing, stripUndefined(override));
+        } else {
+            merged.push(normalizePlaceholder(override));
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Fill in the fields a partial definition (from a manifest, or a derived entry) leaves out.
+ */
+function normalizePlaceholder(placeholder: ManifestPlaceholder): Placeholder {
+    return {
+        prompt: `${placeholder.key}:`,
+        default: '',
+        required: false,
+        ...stripUndefined(placeholder),
+        key: placeholder.key
+    };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Match what the template does not want in the output: `patterns` from the manifest
+ * (globs relative to the template root) and the rules of its .genfromignore.
+ * Paths use forward slashes, directories are matched with `isDirectory` set.
+ */
+async function createIgnoreMatcher(templateDir: string, patterns: string[]): Promise<(relativePath: string, isDirectory: boolean) => boolean> {
+    // The manifest and the ignore file only describe the template, they never belong in the output,
+    // and a lockfile would be the record of how the template itself was generated
+    const isIgnored = picomatch([MANIFEST_FILE, IGNORE_FILE, LOCKFILE, ...patterns], {dot: true});
+    const ignoreFile = path.join(templateDir, IGNORE_FILE);
+    const rules = ignore().add(await fs.pathExists(ignoreFile) ? await fs.readFile(ignoreFile, 'utf-8') : '');
+
+    return (relativePath, isDirectory) => {
+        const rulePath = isDirectory ? `${relativePath}/` : relativePath;
+        return isIgnored(relativePath) || (isDirectory && isIgnored(rulePath)) || rules.ignores(rulePath);
+    };
+}
+
+/**
+ * Remove what the template does not want in the output, see createIgnoreMatcher().
+ */
+async function removeIgnoredFiles(templateDir: string, patterns: string[]): Promise<string[]> {
+    const isIgnored = await createIgnoreMatcher(templateDir, patterns);
+    const removed: string[] = [];
+
+    async function scan(currentDir: string) {
+        const items = await fs.readdir(currentDir);
+
+        for (const item of items) {
+            const fullPath = path.join(currentDir, item);
+            const relativePath = path.relative(templateDir, fullPath).split(path.sep).join('/');
+            const stat = await fs.stat(fullPath);
+
+            if (isIgnored(relativePath, stat.isDirectory())) {
+                await fs.remove(fullPath);
+                removed.push(relativePath);
+            } else if (stat.isDirectory()) {
+                await scan(fullPath);
+            }
+        }
+    }
+
+    await scan(templateDir);
+    return removed;
+}
+
+export {
+    loadManifest,
+    mergePlaceholders,
+    normalizePlaceholder,
+    createIgnoreMatcher,
+    removeIgnoredFiles
+};
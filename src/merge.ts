@@ -0,0 +1,261 @@
+import chalk from 'chalk';
+import {diffArrays} from 'diff';
+import fs from 'fs-extra';
+import path from 'path';
+import {decodeText, encodeText} from './files';
+import type {FileChange} from './preview';
+import {createTransaction} from './transaction';
+
+export const CONFLICT_POLICIES = ['skip', 'overwrite', 'prompt'] as const;
+
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+// What to do with a template file that differs from the existing one
+export type ConflictResolution = 'keep' | 'overwrite' | 'new' | 'merge';
+
+export type ConflictResolver = (change: FileChange) => Promise<ConflictResolution | null>;
+
+// Existing files differ from the template and nothing decided what to do with them
+export class ConflictError extends Error {
+    constructor(message: string, public paths: string[]) {
+        super(message);
+        this.name = 'ConflictError';
+    }
+}
+
+export interface MergeResult {
+    content: string;
+    conflicts: number;
+}
+
+export interface WriteSummary {
+    written: string[];
+    unchanged: string[];
+    kept: string[];
+    // Template versions written next to the existing file as `<file>.new`
+    newFiles: string[];
+    merged: string[];
+    // Merged files that still contain conflict markers
+    conflicted: string[];
+}
+
+export interface MergeLabels {
+    ours: string;
+    theirs: string;
+}
+
+interface Hunk {
+    // Replaced range of the base, end exclusive
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+// Lines with their line endings, so merged files keep them
+function splitLines(content: string): string[] {
+    return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function diffHunks(base: string[], changed: string[]): Hunk[] {
+    const hunks: Hunk[] = [];
+    let index = 0;
+    let current: Hunk | null = null;
+
+    for (const part of diffArrays(base, changed)) {
+        if (!part.added && !part.removed) {
+            current = null;
+            index += part.value.length;
+            continue;
+        }
+
+        if (!current) {
+            current = {start: index, end: index, lines: []};
+            hunks.push(current);
+        }
+        if (part.removed) {
+            index += part.value.length;
+            current.end = index;
+        } else {
+            current.lines.push(...part.value);
+        }
+    }
+
+    return hunks;
+}
+
+// Apply the hunks of one side to base[start, end)
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+    const result: string[] = [];
+    let index = start;
+
+    for (const hunk of hunks) {
+        result.push(...base.slice(index, hunk.start), ...hunk.lines);
+        index = hunk.end;
+    }
+
+    return [...result, ...base.slice(index, end)];
+}
+
+const withNewline = (lines: string[]) => lines.map((line, i) => i === lines.length - 1 && !line.endsWith('\n') ? `${line}\n` : line);
+
+/**
+ * Three-way merge of two versions of a file that share `base`.
+ * Changes made on one side only are applied, overlapping changes become conflict blocks with git-style markers.
+ * Without a base, the lines both versions have in common are used, so lines added on either side are kept
+ * and only lines that differ on both sides conflict.
+ */
+function mergeThreeWay(ours: string, theirs: string, base?: string, labels: MergeLabels = {ours: 'existing', theirs: 'template'}): MergeResult {
+    const ourLines = splitLines(ours);
+    const theirLines = splitLines(theirs);
+    const baseLines = base === undefined
+        ? diffArrays(ourLines, theirLines).filter(part => !part.added && !part.removed).flatMap(part => part.value)
+        : splitLines(base);
+
+    const hunks = [
+        ...diffHunks(baseLines, ourLines).map(hunk => ({...hunk, side: 'ours' as const})),
+        ...diffHunks(baseLines, theirLines).map(hunk => ({...hunk, side: 'theirs' as const}))
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let index = 0;
+
+    for (let i = 0; i < hunks.length;) {
+        // Changes that overlap or touch in the base belong to the same region
+        const group = [hunks[i]];
+        let end = hunks[i].end;
+        for (i++; i < hunks.length && hunks[i].start <= end; i++) {
+            group.push(hunks[i]);
+            end = Math.max(end, hunks[i].end);
+        }
+
+        const start = group[0].start;
+        output.push(...baseLines.slice(index, start));
+        index = end;
+
+        const ourHunks = group.filter(hunk => hunk.side === 'ours');
+        const theirHunks = group.filter(hunk => hunk.side === 'theirs');
+        const ourRegion = applyHunks(baseLines, ourHunks, start, end);
+        const theirRegion = applyHunks(baseLines, theirHunks, start, end);
+
+        if (theirHunks.length === 0 || ourRegion.join('') === theirRegion.join('')) {
+            output.push(...ourRegion);
+        } else if (ourHunks.length === 0) {
+            output.push(...theirRegion);
+        } else {
+            conflicts++;
+            if (output.length > 0) {
+                output.push(...withNewline(output.splice(-1)));
+            }
+            output.push(
+                `<<<<<<< ${labels.ours}\n`,
+                ...withNewline(ourRegion),
+                '=======\n',
+                ...withNewline(theirRegion),
+                `>>>>>>> ${labels.theirs}\n`
+            );
+        }
+    }
+
+    output.push(...baseLines.slice(index));
+    return {content: output.join(''), conflicts};
+}
+
+/**
+ * Write the staged template into the target, file by file.
+ * New files are copied, identical ones are left alone and `resolve` decides about every file that differs.
+ * All decisions are made before the first write; returns null when the resolver is cancelled, with nothing written.
+ * Writing happens in a transaction: if it fails or `signal` is aborted, the target is restored.
+ */
+async function writeStagedFiles(stagingDir: string, targetDir: string, changes: FileChange[], resolve: ConflictResolver, signal?: AbortSignal): Promise<WriteSummary | null> {
+    const summary: WriteSummary = {written: [], unchanged: [], kept: [], newFiles: [], merged: [], conflicted: []};
+    const plan: [FileChange, ConflictResolution][] = [];
+
+    for (const change of changes) {
+        if (change.change === 'unchanged') {
+            summary.unchanged.push(change.path);
+        } else if (change.change === 'new') {
+            plan.push([change, 'overwrite']);
+        } else {
+            const resolution = await resolve(change);
+            if (!resolution) {
+                return null;
+            }
+            plan.push([change, resolution]);
+        }
+    }
+
+    const transaction = await createTransaction();
+
+    try {
+        for (const [change, resolution] of plan) {
+            signal?.throwIfAborted();
+
+            const stagedPath = path.join(stagingDir, change.path);
+            const targetPath = path.join(targetDir, change.path);
+
+            switch (resolution) {
+                case 'keep':
+                    summary.kept.push(change.path);
+                    break;
+                case 'overwrite':
+                    await transaction.track(targetPath);
+                    await fs.copy(stagedPath, targetPath, {overwrite: true});
+                    summary.written.push(change.path);
+                    break;
+                case 'new':
+                    await transaction.track(`${targetPath}.new`);
+                    await fs.copy(stagedPath, `${targetPath}.new`, {overwrite: true});
+                    summary.newFiles.push(`${change.path}.new`);
+                    break;
+                case 'merge': {
+                    // Two-way when nothing records what the existing file looked like when it was generated
+                    const existing = decodeText(await fs.readFile(targetPath));
+                    const result = mergeThreeWay(existing.text, decodeText(await fs.readFile(stagedPath)).text, change.base);
+                    await transaction.track(targetPath);
+                    await fs.writeFile(targetPath, encodeText(result.content, existing));
+                    (result.conflicts > 0 ? summary.conflicted : summary.merged).push(change.path);
+                    break;
+                }
+            }
+        }
+        signal?.throwIfAborted();
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    await transaction.commit();
+    return summary;
+}
+
+function printWriteSummary(summary: WriteSummary): void {
+    const count = (files: string[]) => `${files.length} file${files.length === 1 ? '' : 's'}`;
+
+    // Written and unchanged files are only counted, the rest needs attention
+    if (summary.written.length > 0) {
+        console.log(chalk.green(`  Written: ${count(summary.written)}`));
+    }
+    if (summary.unchanged.length > 0) {
+        console.log(chalk.dim(`  Unchanged: ${count(summary.unchanged)}`));
+    }
+
+    const lists: [string, string[], (text: string) => string][] = [
+        ['Kept existing', summary.kept, chalk.yellow],
+        ['Template version saved as', summary.newFiles, chalk.cyan],
+        ['Merged', summary.merged, chalk.green],
+        ['Merged with conflicts, resolve the markers in', summary.conflicted, chalk.red]
+    ];
+    for (const [label, files, color] of lists) {
+        if (files.length > 0) {
+            console.log(color(`  ${label}: ${files.join(', ')}`));
+        }
+    }
+}
+
+export {
+    splitLines,
+    mergeThreeWay,
+    writeStagedFiles,
+    printWriteSummary
+};
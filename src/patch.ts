@@ -0,0 +1,332 @@
+import {applyEdits, findNodeAtLocation, getNodeValue, modify, parseTree} from 'jsonc-parser';
+import type {FormattingOptions, ParseError} from 'jsonc-parser';
+import path from 'path';
+import {isNode, isSeq, parseDocument} from 'yaml';
+import {parse as parseToml} from 'smol-toml';
+import {createRenderContext, defaultRenderer, findReferencedKeys, formatValue} from './render';
+import type {Renderer} from './render';
+import {getTomlValue, removeTomlValue, setTomlValue} from './toml';
+import type {Patch, UserInputs} from './types';
+
+export type PatchPath = (string | number)[];
+
+export interface PatchResult {
+    content: string;
+    // Paths that were changed, in the order they were applied
+    changed: string[];
+}
+
+// A parsed JSON, YAML or TOML file that is edited in place and printed back with its formatting
+interface StructuredFile {
+    get(path: PatchPath): { exists: boolean; value: unknown };
+    set(path: PatchPath, value: unknown): void;
+    append(path: PatchPath, items: unknown[]): void;
+    remove(path: PatchPath): void;
+    toString(): string;
+}
+
+/**
+ * What gen-from always did to package.json, as patches: the name is set, and the author,
+ * repository, bugs, homepage and keywords are only updated when the template has them.
+ */
+export const DEFAULT_PATCHES: Patch[] = [{
+    file: '**/package.json',
+    set: {
+        name: '{{PACKAGE_NAME}}'
+    },
+    replace: {
+        'author': '{{AUTHOR_NAME}}',
+        'author.name': '{{AUTHOR_NAME}}',
+        'author.url': 'https://github.com/{{USERNAME}}',
+        'repository': '{{REPO_URL}}',
+        'repository.url': '{{REPO_URL}}',
+        'bugs': '{{REPO_URL}}/issues',
+        'bugs.url': '{{REPO_URL}}/issues',
+        'homepage': '{{REPO_URL}}'
+    },
+    append: {
+        keywords: ['typescript', 'javascript', '{{PROJECT_NAME | lower}}', 'utility']
+    }
+}];
+
+/**
+ * Split a dotted path into keys and array indexes: `jobs.test.steps[0].name`.
+ * A backslash keeps the next character as part of the key, e.g. `exports.\./utils`.
+ */
+function parsePatchPath(raw: string): PatchPath {
+    const segments: PatchPath = [];
+    let current = '';
+    let closed = false;
+
+    for (let i = 0; i < raw.length; i++) {
+        const char = raw[i];
+        if (char === '\\' && i + 1 < raw.length) {
+            current += raw[++i];
+        } else if (char === '.') {
+            if (!current && !closed) {
+                throw new Error(`Invalid patch path "${raw}": empty key`);
+            }
+            if (current) {
+                segments.push(current);
+            }
+            current = '';
+            closed = false;
+        } else if (char === '[') {
+            const end = raw.indexOf(']', i);
+            const index = raw.slice(i + 1, end);
+            if (end < 0 || !/^\d+$/.test(index)) {
+                throw new Error(`Invalid patch path "${raw}": expected an array index in [ ]`);
+            }
+            if (current) {
+                segments.push(current);
+            }
+            segments.push(Number(index));
+            current = '';
+            closed = true;
+            i = end;
+        } else {
+            current += char;
+        }
+    }
+
+    if (current) {
+        segments.push(current);
+    } else if (!closed) {
+        throw new Error(`Invalid patch path "${raw}": empty key`);
+    }
+    return segments;
+}
+
+function detectJsonFormatting(text: string): FormattingOptions {
+    const indent = text.match(/^[ \t]+(?=\S)/m)?.[0] ?? '  ';
+    return {
+        insertSpaces: !indent.startsWith('\t'),
+        tabSize: indent.startsWith('\t') ? 1 : indent.length,
+        eol: text.includes('\r\n') ? '\r\n' : '\n'
+    };
+}
+
+// jsonc-parser removes everything up to the next member, comments included, so only the member's own line goes here
+function removeJsonMember(text: string, path: PatchPath): string {
+    const root = parseTree(text, [], {allowTrailingComma: true});
+    const node = root && findNodeAtLocation(root, path);
+    if (!node?.parent) {
+        return text;
+    }
+
+    const member = node.parent.type === 'property' ? node.parent : node;
+    const siblings = member.parent?.children ?? [];
+    const index = siblings.indexOf(member);
+    let start = member.offset;
+    let end = member.offset + member.length;
+
+    if (index < siblings.length - 1) {
+        end = text.indexOf(',', end) + 1;
+    } else if (index > 0) {
+        // The last member goes, so the one before it loses its comma
+        const previous = siblings[index - 1];
+        const comma = text.indexOf(',', previous.offset + previous.length);
+        text = text.slice(0, comma) + text.slice(comma + 1);
+        start--;
+        end--;
+        while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t') && text[start - 2] !== '\n') {
+            start--;
+        }
+    }
+
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end) < 0 ? text.length : text.indexOf('\n', end);
+    if (/^[ \t]*$/.test(text.slice(lineStart, start)) && /^[ \t]*\r?$/.test(text.slice(end, lineEnd))) {
+        start = lineStart;
+        end = Math.min(lineEnd + 1, text.length);
+    }
+    return text.slice(0, start) + text.slice(end);
+}
+
+function openJson(text: string): StructuredFile {
+    const errors: ParseError[] = [];
+    parseTree(text, errors, {allowTrailingComma: true});
+    if (errors.length > 0) {
+        throw new Error(`invalid JSON at offset ${errors[0].offset}`);
+    }
+
+    const formattingOptions = detectJsonFormatting(text);
+    const edit = (path: PatchPath, value: unknown, isArrayInsertion = false) => {
+        text = applyEdits(text, modify(text, path, value, {formattingOptions, isArrayInsertion}));
+    };
+
+    return {
+        get(path) {
+            const root = parseTree(text, [], {allowTrailingComma: true});
+            const node = root && findNodeAtLocation(root, path);
+            return node ? {exists: true, value: getNodeValue(node)} : {exists: false, value: undefined};
+        },
+        set(path, value) {
+            edit(path, value);
+        },
+        append(path, items) {
+            for (const item of items) {
+                edit([...path, -1], item, true);
+            }
+        },
+        remove(path) {
+            text = removeJsonMember(text, path);
+        },
+        toString() {
+            return text;
+        }
+    };
+}
+
+function openYaml(text: string): StructuredFile {
+    const document = parseDocument(text);
+    if (document.errors.length > 0) {
+        throw new Error(`invalid YAML: ${document.errors[0].message.split('\n')[0]}`);
+    }
+
+    return {
+        get(path) {
+            if (!document.hasIn(path)) {
+                return {exists: false, value: undefined};
+            }
+            const node = document.getIn(path, true);
+            return {exists: true, value: isNode(node) ? node.toJSON() : node};
+        },
+        set(path, value) {
+            document.setIn(path, document.createNode(value));
+        },
+        append(path, items) {
+            const sequence = document.getIn(path, true);
+            if (isSeq(sequence)) {
+                for (const item of items) {
+                    sequence.add(document.createNode(item));
+                }
+            }
+        },
+        remove(path) {
+            document.deleteIn(path);
+        },
+        toString() {
+            // Long lines stay as they were written instead of being folded
+            return document.toString({lineWidth: 0});
+        }
+    };
+}
+
+function openToml(text: string): StructuredFile {
+    try {
+        parseToml(text);
+    } catch (error) {
+        throw new Error(`invalid TOML: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    }
+
+    return {
+        get(path) {
+            return getTomlValue(text, path);
+        },
+        set(path, value) {
+            text = setTomlValue(text, path, value);
+        },
+        append(path, items) {
+            const {value} = getTomlValue(text, path);
+            text = setTomlValue(text, path, [...value as unknown[], ...items]);
+        },
+        remove(path) {
+            text = removeTomlValue(text, path);
+        },
+        toString() {
+            return text;
+        }
+    };
+}
+
+const FORMATS: Record<string, (text: string) => StructuredFile> = {
+    '.json': openJson,
+    '.jsonc': openJson,
+    '.yml': openYaml,
+    '.yaml': openYaml,
+    '.toml': openToml
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isContainer = (value: unknown) => value !== null && typeof value === 'object';
+
+/**
+ * Apply one patch to the contents of `filePath`, which picks the format from its extension.
+ * String values are rendered like file contents. A value that uses an answer the user left
+ * empty is skipped, so a missing author never ends up as an empty string.
+ */
+function applyPatch(content: string, filePath: string, patch: Patch, userInputs: UserInputs, renderer: Renderer = defaultRenderer): PatchResult {
+    const open = FORMATS[path.extname(filePath).toLowerCase()];
+    if (!open) {
+        throw new Error('only JSON, YAML and TOML files can be patched');
+    }
+
+    const file = open(content);
+    const context = createRenderContext(userInputs);
+    const changed: string[] = [];
+
+    // Rendered value, or undefined when it refers to an empty answer
+    function render(value: unknown): unknown {
+        if (typeof value === 'string') {
+            const missing = findReferencedKeys(value).some(key => context[key] === undefined || formatValue(context[key]) === '');
+            return missing ? undefined : renderer.render(value, context, {file: filePath});
+        }
+        if (Array.isArray(value)) {
+            const items = value.map(render);
+            return items.includes(undefined) ? undefined : items;
+        }
+        if (isContainer(value)) {
+            const entries = Object.entries(value as object).map(([key, item]) => [key, render(item)]);
+            return entries.some(([, item]) => item === undefined) ? undefined : Object.fromEntries(entries);
+        }
+        return value;
+    }
+
+    for (const [rawPath, rawValue] of Object.entries(patch.set ?? {})) {
+        const value = render(rawValue);
+        const current = file.get(parsePatchPath(rawPath));
+        if (value !== undefined && !(current.exists && isEqual(current.value, value))) {
+            file.set(parsePatchPath(rawPath), value);
+            changed.push(rawPath);
+        }
+    }
+
+    for (const [rawPath, rawValue] of Object.entries(patch.replace ?? {})) {
+        const value = render(rawValue);
+        const current = file.get(parsePatchPath(rawPath));
+        if (value !== undefined && current.exists && !isContainer(current.value) && !isEqual(current.value, value)) {
+            file.set(parsePatchPath(rawPath), value);
+            changed.push(rawPath);
+        }
+    }
+
+    for (const [rawPath, rawItems] of Object.entries(patch.append ?? {})) {
+        const items = render(rawItems) as unknown[] | undefined;
+        const {value: current} = file.get(parsePatchPath(rawPath));
+        if (!items || !Array.isArray(current)) {
+            continue;
+        }
+        const added = items.filter((item, i) => !current.some(existing => isEqual(existing, item))
+            && items.findIndex(other => isEqual(other, item)) === i);
+        if (added.length > 0) {
+            file.append(parsePatchPath(rawPath), added);
+            changed.push(rawPath);
+        }
+    }
+
+    for (const rawPath of patch.remove ?? []) {
+        if (file.get(parsePatchPath(rawPath)).exists) {
+            file.remove(parsePatchPath(rawPath));
+            changed.push(rawPath);
+        }
+    }
+
+    return {content: changed.length > 0 ? file.toString() : content, changed};
+}
+
+export {
+    parsePatchPath,
+    applyPatch
+};
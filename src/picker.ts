@@ -0,0 +1,135 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {getUserConfigDir} from './config';
+import type {RegistryOptions} from './config';
+import type {Template} from './types';
+
+// Names of the templates generated from last, most recent first, next to the user registry
+export const RECENT_FILE = 'recent.json';
+const RECENT_LIMIT = 5;
+
+function getRecentPath(options: RegistryOptions = {}): string {
+    return path.join(getUserConfigDir(options), RECENT_FILE);
+}
+
+async function readRecentTemplates(options: RegistryOptions = {}): Promise<string[]> {
+    // A missing or broken history only changes the order of the picker
+    try {
+        const data = await fs.readJson(getRecentPath(options));
+        return Array.isArray(data) ? data.filter((name): name is string => typeof name === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+async function recordRecentTemplate(name: string, options: RegistryOptions = {}): Promise<void> {
+    const recent = await readRecentTemplates(options);
+    await fs.outputJson(getRecentPath(options), [name, ...recent.filter(other => other !== name)].slice(0, RECENT_LIMIT), {spaces: 2});
+}
+
+// The first tag is the template's category, which groups the list and the picker
+function getCategory(template: Template): string | undefined {
+    return template.tags?.[0];
+}
+
+/**
+ * Keep the templates that have every one of the tags, ignoring case.
+ */
+function filterByTags(templates: Template[], tags: string[]): Template[] {
+    const wanted = tags.map(tag => tag.toLowerCase());
+    return templates.filter(template => wanted.every(tag => template.tags?.some(own => own.toLowerCase() === tag)));
+}
+
+function isWordStart(text: string, position: number): boolean {
+    return position === 0 || /[\s\-_/.:]/.test(text[position - 1]);
+}
+
+// Match the characters of `needle` in order from `start`, taking the first occurrence of each
+function scoreFrom(needle: string, haystack: string, start: number): number | null {
+    let position = start;
+    let score = 1 + (isWordStart(haystack, start) ? 3 : 0);
+
+    for (const char of needle.slice(1)) {
+        const next = haystack.indexOf(char, position + 1);
+        if (next === -1) {
+            return null;
+        }
+
+        score += 1 + (next === position + 1 ? 2 : 0) + (isWordStart(haystack, next) ? 3 : 0);
+        position = next;
+    }
+
+    return score;
+}
+
+/**
+ * Score how well `query` matches `text`: its characters must all appear in order, ignoring case.
+ * Runs of characters and matches at the start of words score higher, null when it does not match.
+ */
+function fuzzyScore(query: string, text: string): number | null {
+    const needle = query.toLowerCase();
+    const haystack = text.toLowerCase();
+    let best: number | null = null;
+
+    // Tried from every occurrence of the first character, so "app" matches the word in "react-app"
+    for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+        const score = scoreFrom(needle, haystack, start);
+        if (score !== null && (best === null || score > best)) {
+            best = score;
+        }
+    }
+
+    // Between equal matches, the shorter text is the closer one
+    return best === null ? null : best - haystack.length / 1000;
+}
+
+// Every word of the query has to match the name, the description or a tag, matches in the name count double
+function matchTemplate(template: Template, query: string): number | null {
+    let total = 0;
+
+    for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+        const scores = [template.name, template.description, ...template.tags ?? []]
+            .map((field, index) => {
+                const score = fuzzyScore(word, field);
+                return score !== null && index === 0 ? score * 2 : score;
+            })
+            .filter((score): score is number => score !== null);
+        if (scores.length === 0) {
+            return null;
+        }
+        total += Math.max(...scores);
+    }
+
+    return total;
+}
+
+/**
+ * Order templates for the picker. Without a query: the recently used ones first, then the others grouped
+ * by category in registry order, untagged ones last. With a query, only the matching templates are kept,
+ * best match first.
+ */
+function rankTemplates(templates: Template[], query = '', recent: string[] = []): Template[] {
+    const categories = [...new Set(templates.map(getCategory).filter(Boolean))];
+    const recentRank = (template: Template) => recent.includes(template.name) ? recent.indexOf(template.name) : recent.length;
+    const categoryRank = (template: Template) => getCategory(template) ? categories.indexOf(getCategory(template)) : categories.length;
+
+    const ordered = [...templates].sort((a, b) => recentRank(a) - recentRank(b) || categoryRank(a) - categoryRank(b));
+    if (!query.trim()) {
+        return ordered;
+    }
+
+    return ordered
+        .map(template => ({template, score: matchTemplate(template, query)}))
+        .filter((match): match is { template: Template; score: number } => match.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .map(match => match.template);
+}
+
+export {
+    readRecentTemplates,
+    recordRecentTemplate,
+    getCategory,
+    filterByTags,
+    fuzzyScore,
+    rankTemplates
+};
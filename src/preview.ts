@@ -0,0 +1,153 @@
+import chalk from 'chalk';
+import {createTwoFilesPatch} from 'diff';
+import fs from 'fs-extra';
+import path from 'path';
+import {isBinaryContent} from './files';
+import type {FileReport} from './files';
+
+export type ChangeKind = 'new' | 'modified' | 'unchanged';
+
+export interface FileChange extends FileReport {
+    change: ChangeKind;
+    // Unified diff against the existing file, only for modified text files
+    diff?: string;
+    // The file as the template version the project was generated from rendered it, the base of three-way merges
+    base?: string;
+}
+
+interface TreeNode {
+    children: Map<string, TreeNode>;
+    // Set on files, directories only have children
+    path?: string;
+}
+
+/**
+ * Draw relative file paths as a tree, directories first in the order they appear.
+ * `annotate` adds a note after each file name.
+ */
+function formatTree(paths: string[], annotate: (filePath: string) => string = () => ''): string[] {
+    const root: TreeNode = {children: new Map()};
+
+    for (const filePath of [...paths].sort()) {
+        let node = root;
+        for (const segment of filePath.split(path.sep)) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = {children: new Map()};
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        node.path = filePath;
+    }
+
+    const lines: string[] = [];
+
+    function walk(node: TreeNode, prefix: string) {
+        const entries = [...node.children.entries()];
+        entries.forEach(([name, child], i) => {
+            const isLast = i === entries.length - 1;
+            const note = child.path === undefined ? '' : annotate(child.path);
+            const label = child.path === undefined ? `${name}/` : name;
+            lines.push(`${prefix}${isLast ? '└── ' : '├── '}${label}${note ? `  ${note}` : ''}`);
+            if (child.path === undefined) {
+                walk(child, prefix + (isLast ? '    ' : '│   '));
+            }
+        });
+    }
+
+    walk(root, '');
+    return lines;
+}
+
+/**
+ * Compare the processed files in the staging directory with what is already in the target.
+ * Nothing is written, the target does not even have to exist.
+ */
+async function compareWithTarget(stagingDir: string, targetDir: string, reports: FileReport[]): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+
+    for (const report of reports) {
+        const targetPath = path.join(targetDir, report.path);
+        if (!await fs.pathExists(targetPath)) {
+            changes.push({...report, change: 'new'});
+            continue;
+        }
+
+        const staged = await fs.readFile(path.join(stagingDir, report.path));
+        const existing = await fs.readFile(targetPath);
+        if (staged.equals(existing)) {
+            changes.push({...report, change: 'unchanged'});
+            continue;
+        }
+
+        if (isBinaryContent(staged) || isBinaryContent(existing)) {
+            changes.push({...report, change: 'modified'});
+            continue;
+        }
+
+        // Diff headers always use forward slashes, like git
+        const name = report.path.split(path.sep).join('/');
+        const diff = createTwoFilesPatch(`a/${name}`, `b/${name}`, existing.toString('utf-8'), staged.toString('utf-8'), undefined, undefined, {context: 3})
+            // Drop the ===== separator line jsdiff puts before the headers
+            .replace(/^=+\n/, '');
+        changes.push({...report, change: 'modified', diff});
+    }
+
+    return changes;
+}
+
+function colorizeDiff(diff: string): string {
+    return diff.split('\n').map(line => {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+            return chalk.bold(line);
+        }
+        if (line.startsWith('@@')) {
+            return chalk.cyan(line);
+        }
+        if (line.startsWith('+')) {
+            return chalk.green(line);
+        }
+        if (line.startsWith('-')) {
+            return chalk.red(line);
+        }
+        return line;
+    }).join('\n');
+}
+
+function printDryRun(changes: FileChange[], targetDir: string): void {
+    const byPath = new Map(changes.map(change => [change.path, change]));
+    const labels: Record<ChangeKind, string> = {
+        new: chalk.green('new'),
+        modified: chalk.yellow('modified'),
+        unchanged: chalk.dim('unchanged')
+    };
+
+    console.log(chalk.yellow(`\nFiles that would be written to ${targetDir === '.' ? 'the current directory' : targetDir}:`));
+
+    const tree = formatTree(changes.map(change => change.path), filePath => {
+        const {change, replacements} = byPath.get(filePath) as FileChange;
+        const count = replacements > 0 ? chalk.dim(`${replacements} replacement${replacements === 1 ? '' : 's'}, `) : '';
+        return `${count}${labels[change]}`;
+    });
+    for (const line of tree) {
+        console.log(`  ${line}`);
+    }
+
+    const modified = changes.filter(change => change.change === 'modified');
+    for (const change of modified) {
+        console.log('');
+        console.log(change.diff ? colorizeDiff(change.diff.trimEnd()) : chalk.dim(`Binary file ${change.path} differs`));
+    }
+
+    const count = (kind: ChangeKind) => changes.filter(change => change.change === kind).length;
+    console.log(chalk.dim(`\n${count('new')} new, ${modified.length} modified, ${count('unchanged')} unchanged`));
+    console.log(chalk.green('✓ Dry run complete, nothing was written'));
+}
+
+export {
+    formatTree,
+    compareWithTarget,
+    colorizeDiff,
+    printDryRun
+};
@@ -0,0 +1,348 @@
+export type RenderContext = Record<string, unknown>;
+
+export type Filter = (value: unknown) => unknown;
+
+export interface RenderOptions {
+    // Used in error messages, usually the path relative to the project root
+    file?: string;
+    // Opening and closing delimiters of tags, {{ and }} when unset
+    delimiters?: [string, string];
+}
+
+export interface Renderer {
+    render(content: string, context: RenderContext, options?: RenderOptions): string;
+}
+
+// A tag found in a template, for checks that do not render it
+export interface TemplateTag {
+    // A value, or the key an {{#if}}, {{#unless}} or {{#each}} block tests
+    kind: 'var' | 'if' | 'each';
+    key: string;
+    filters: string[];
+    line: number;
+    // Inside {{#each}}, where the key may be a field of the items
+    inEach: boolean;
+}
+
+export class TemplateSyntaxError extends Error {
+    constructor(public reason: string, public file: string | undefined, public line: number) {
+        super(`${file ?? '<template>'}:${line}: ${reason}`);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+type Node =
+    | { kind: 'text'; value: string }
+    | { kind: 'var'; key: string; filters: string[]; raw: string; line: number }
+    | { kind: 'if'; key: string; negate: boolean; body: Node[]; alternate: Node[]; line: number }
+    | { kind: 'each'; key: string; body: Node[]; line: number };
+
+interface Block {
+    kind: 'if' | 'each';
+    node: Extract<Node, { kind: 'if' | 'each' }>;
+    inElse: boolean;
+}
+
+export const DEFAULT_DELIMITERS: [string, string] = ['{{', '}}'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One tag between the delimiters, with its expression in the first group
+function createTagPattern([open, close]: [string, string]): RegExp {
+    return new RegExp(`${escapeRegExp(open)}\\s*([\\s\\S]*?)\\s*${escapeRegExp(close)}`, 'g');
+}
+
+const TAG_PATTERN = createTagPattern(DEFAULT_DELIMITERS);
+const KEY_PATTERN = /^(?:[A-Za-z_][A-Za-z0-9_]*|this|@index)$/;
+
+function splitWords(value: string): string[] {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean);
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const DEFAULT_FILTERS: Record<string, Filter> = {
+    lower: value => String(value).toLowerCase(),
+    upper: value => String(value).toUpperCase(),
+    trim: value => String(value).trim(),
+    camelCase: value => splitWords(String(value)).map((word, i) => i === 0 ? word.toLowerCase() : capitalize(word)).join(''),
+    pascalCase: value => splitWords(String(value)).map(capitalize).join(''),
+    kebabCase: value => splitWords(String(value)).map(word => word.toLowerCase()).join('-'),
+    snakeCase: value => splitWords(String(value)).map(word => word.toLowerCase()).join('_'),
+    constantCase: value => splitWords(String(value)).map(word => word.toUpperCase()).join('_'),
+    // Year of a date value, or the current year when the value is not a date
+    year: value => {
+        const date = value ? new Date(String(value)) : new Date();
+        return String(isNaN(date.getTime()) ? new Date().getFullYear() : date.getFullYear());
+    }
+};
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return value.join(', ');
+    }
+    return value === undefined || value === null ? '' : String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    if (typeof value === 'string') {
+        return !['', 'false', '0', 'no', 'n'].includes(value.trim().toLowerCase());
+    }
+    return Boolean(value);
+}
+
+function toList(value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (typeof value === 'string') {
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    return value === undefined || value === null || value === false ? [] : [value];
+}
+
+function countNewlines(text: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = start; i < end; i++) {
+        if (text.charCodeAt(i) === 10) {
+            count++;
+        }
+    }
+    return count;
+}
+
+function parse(content: string, file?: string, delimiters: [string, string] = DEFAULT_DELIMITERS): Node[] {
+    const [open, close] = delimiters;
+    const tag = (expression: string) => `${open}${expression}${close}`;
+    const pattern = createTagPattern(delimiters);
+    const root: Node[] = [];
+    const stack: Block[] = [];
+    let lastIndex = 0;
+    let line = 1;
+
+    const current = (): Node[] => {
+        const block = stack[stack.length - 1];
+        if (!block) {
+            return root;
+        }
+        return block.node.kind === 'if' && block.inElse ? block.node.alternate : block.node.body;
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content))) {
+        const index = match.index;
+        const expression = match[1];
+        line += countNewlines(content, lastIndex, index);
+
+        // A backslash before the opening delimiter makes it plain text
+        if (content[index - 1] === '\\') {
+            current().push({kind: 'text', value: content.slice(lastIndex, index - 1) + open});
+            lastIndex = pattern.lastIndex = index + open.length;
+            continue;
+        }
+
+        current().push({kind: 'text', value: content.slice(lastIndex, index)});
+        lastIndex = index + match[0].length;
+        const tagLine = line;
+        line += countNewlines(match[0], 0, match[0].length);
+
+        const opening = /^#(if|unless|each)\b\s*([\s\S]*)$/.exec(expression);
+        if (opening) {
+            const [, helper, key] = opening;
+            if (!KEY_PATTERN.test(key)) {
+                throw new TemplateSyntaxError(`${tag(`#${helper}`)} needs a placeholder key`, file, tagLine);
+            }
+
+            const node: Block['node'] = helper === 'each'
+                ? {kind: 'each', key, body: [], line: tagLine}
+                : {kind: 'if', key, negate: helper === 'unless', body: [], alternate: [], line: tagLine};
+            current().push(node);
+            stack.push({kind: node.kind, node, inElse: false});
+            continue;
+        }
+
+        const closing = /^\/(if|unless|each)$/.exec(expression);
+        if (closing) {
+            const kind = closing[1] === 'each' ? 'each' : 'if';
+            const block = stack.pop();
+            if (!block) {
+                throw new TemplateSyntaxError(`${tag(`/${closing[1]}`)} without a matching opening tag`, file, tagLine);
+            }
+            if (block.kind !== kind) {
+                throw new TemplateSyntaxError(`${tag(`/${closing[1]}`)} closes a ${tag(`#${block.kind}`)} opened on line ${block.node.line}`, file, tagLine);
+            }
+            continue;
+        }
+
+        if (expression === 'else' && stack.length > 0) {
+            const block = stack[stack.length - 1];
+            if (block.kind !== 'if' || block.inElse) {
+                throw new TemplateSyntaxError(`unexpected ${tag('else')}`, file, tagLine);
+            }
+            block.inElse = true;
+            continue;
+        }
+
+        const [key, ...filters] = expression.split('|').map(part => part.trim());
+        if (KEY_PATTERN.test(key) && filters.every(Boolean)) {
+            current().push({kind: 'var', key, filters, raw: match[0], line: tagLine});
+        } else {
+            // Not ours, e.g. ${{ secrets.TOKEN }} in a GitHub workflow
+            current().push({kind: 'text', value: match[0]});
+        }
+    }
+
+    if (stack.length > 0) {
+        const block = stack[stack.length - 1];
+        throw new TemplateSyntaxError(`${tag(`#${block.kind}`)} is never closed`, file, block.node.line);
+    }
+
+    current().push({kind: 'text', value: content.slice(lastIndex)});
+    return root;
+}
+
+// Answers plus the values every template can use
+function createRenderContext(answers: RenderContext): RenderContext {
+    return {
+        NOW: new Date().toISOString(),
+        ...answers
+    };
+}
+
+/**
+ * Keys a template refers to, in {{KEY}}, {{KEY | filter}}, {{#if KEY}} and {{#each KEY}} tags.
+ */
+function findReferencedKeys(content: string): string[] {
+    const keys = new Set<string>();
+
+    for (const match of content.matchAll(TAG_PATTERN)) {
+        const expression = match[1].replace(/^#(?:if|unless|each)\s+/, '');
+        const key = expression.split('|')[0].trim();
+        if (KEY_PATTERN.test(key) && key !== 'this' && key !== '@index') {
+            keys.add(key);
+        }
+    }
+
+    return [...keys];
+}
+
+/**
+ * Parse a template and list its tags, without {{this}} and {{@index}}.
+ * Malformed templates throw a TemplateSyntaxError, like rendering them would.
+ */
+function listTemplateTags(content: string, file?: string, delimiters: [string, string] = DEFAULT_DELIMITERS): TemplateTag[] {
+    const tags: TemplateTag[] = [];
+
+    function walk(nodes: Node[], inEach: boolean) {
+        for (const node of nodes) {
+            if (node.kind === 'text') {
+                continue;
+            }
+            if (node.key !== 'this' && node.key !== '@index') {
+                tags.push({kind: node.kind, key: node.key, filters: node.kind === 'var' ? node.filters : [], line: node.line, inEach});
+            }
+            if (node.kind === 'if') {
+                walk(node.body, inEach);
+                walk(node.alternate, inEach);
+            } else if (node.kind === 'each') {
+                walk(node.body, true);
+            }
+        }
+    }
+
+    walk(parse(content, file, delimiters), false);
+    return tags;
+}
+
+function createRenderer(extraFilters: Record<string, Filter> = {}): Renderer {
+    const filters = {...DEFAULT_FILTERS, ...extraFilters};
+
+    function lookup(key: string, scopes: RenderContext[]): unknown {
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            // Own keys only, {{constructor}} or {{toString}} must not find what every object inherits
+            if (Object.prototype.hasOwnProperty.call(scopes[i], key)) {
+                return scopes[i][key];
+            }
+        }
+        return undefined;
+    }
+
+    function renderNodes(nodes: Node[], scopes: RenderContext[], file?: string): string {
+        let output = '';
+
+        for (const node of nodes) {
+            switch (node.kind) {
+                case 'text':
+                    output += node.value;
+                    break;
+                case 'var': {
+                    let value = lookup(node.key, scopes);
+                    if (value === undefined) {
+                        // Unknown keys are left untouched, they may belong to another templating language
+                        output += node.raw;
+                        break;
+                    }
+                    for (const name of node.filters) {
+                        const filter = Object.prototype.hasOwnProperty.call(filters, name) ? filters[name] : undefined;
+                        if (!filter) {
+                            throw new TemplateSyntaxError(`unknown filter "${name}"`, file, node.line);
+                        }
+                        value = filter(value);
+                    }
+                    output += formatValue(value);
+                    break;
+                }
+                case 'if': {
+                    const condition = isTruthy(lookup(node.key, scopes)) !== node.negate;
+                    output += renderNodes(condition ? node.body : node.alternate, scopes, file);
+                    break;
+                }
+                case 'each':
+                    toList(lookup(node.key, scopes)).forEach((item, index) => {
+                        const scope: RenderContext = {this: item, '@index': index};
+                        if (item && typeof item === 'object' && !Array.isArray(item)) {
+                            Object.assign(scope, item);
+                        }
+                        output += renderNodes(node.body, [...scopes, scope], file);
+                    });
+                    break;
+            }
+        }
+
+        return output;
+    }
+
+    return {
+        render(content, context, options = {}) {
+            // Nothing to do for files without tags, which is most of them
+            if (!content.includes((options.delimiters ?? DEFAULT_DELIMITERS)[0])) {
+                return content;
+            }
+            return renderNodes(parse(content, options.file, options.delimiters), [context], options.file);
+        }
+    };
+}
+
+const defaultRenderer = createRenderer();
+
+export {
+    DEFAULT_FILTERS,
+    splitWords,
+    escapeRegExp,
+    formatValue,
+    isTruthy,
+    createRenderContext,
+    findReferencedKeys,
+    listTemplateTags,
+    createRenderer,
+    defaultRenderer
+};
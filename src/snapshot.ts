@@ -0,0 +1,170 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import picomatch from 'picomatch';
+import {getAllFiles} from './files';
+import {fetchTemplate, renderTemplate} from './generate';
+import {collectInputs, loadAnswersFile} from './inputs';
+import {IGNORE_FILE, mergePlaceholders} from './manifest';
+import {colorizeDiff, compareWithTarget} from './preview';
+import type {Placeholder} from './types';
+
+export interface SnapshotChange {
+    // Path relative to the snapshot
+    path: string;
+    // `added` files are rendered but not in the snapshot, `removed` ones are only in the snapshot
+    change: 'added' | 'removed' | 'modified';
+    // Unified diff from the snapshot to the rendered file, only for modified text files
+    diff?: string;
+}
+
+export interface SnapshotResult {
+    // Answers file the template was rendered with
+    fixture: string;
+    snapshotDir: string;
+    // `written` for new snapshots, `updated` when a snapshot that differed was replaced
+    status: 'passed' | 'failed' | 'written' | 'updated';
+    changes: SnapshotChange[];
+}
+
+export interface TemplateTestOptions {
+    // Global placeholders, merged under the template's own
+    placeholders?: Placeholder[];
+    // Replace snapshots that differ instead of failing
+    update?: boolean;
+}
+
+/**
+ * Snapshots live next to their answers file: fixtures/basic.json is compared with fixtures/__snapshots__/basic/
+ */
+function getSnapshotDir(fixture: string): string {
+    return path.join(path.dirname(fixture), '__snapshots__', path.basename(fixture, path.extname(fixture)));
+}
+
+/**
+ * Turn answers file arguments into files, a quoted glob like 'fixtures/*.json' is expanded here.
+ */
+async function resolveFixtures(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+    const fixtures: string[] = [];
+
+    for (const pattern of patterns) {
+        const {base, isGlob} = picomatch.scan(pattern);
+        if (!isGlob) {
+            fixtures.push(pattern);
+            continue;
+        }
+
+        const baseDir = path.resolve(cwd, base || '.');
+        const matches = await fs.pathExists(baseDir) ? await getAllFiles(baseDir) : [];
+        const isMatch = picomatch(pattern, {dot: true});
+        // Matches are listed the way the pattern was written, absolute or relative
+        const found = matches
+            .map(filePath => path.isAbsolute(pattern) ? filePath : path.relative(cwd, filePath))
+            .filter(filePath => isMatch(filePath.split(path.sep).join('/')))
+            .sort();
+        if (found.length === 0) {
+            throw new Error(`No answers files match "${pattern}"`);
+        }
+        fixtures.push(...found);
+    }
+
+    return [...new Set(fixtures)];
+}
+
+async function compareWithSnapshot(renderedDir: string, paths: string[], snapshotDir: string): Promise<SnapshotChange[]> {
+    const compared = await compareWithTarget(renderedDir, snapshotDir, paths.map(filePath => ({path: filePath, replacements: 0})));
+    const changes: SnapshotChange[] = compared
+        .filter(change => change.change !== 'unchanged')
+        .map(change => ({path: change.path, change: change.change === 'new' ? 'added' : 'modified', ...change.diff ? {diff: change.diff} : {}}));
+
+    for (const filePath of await getAllFiles(snapshotDir)) {
+        const relativePath = path.relative(snapshotDir, filePath);
+        if (!paths.includes(relativePath)) {
+            changes.push({path: relativePath, change: 'removed'});
+        }
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Render a local template once per answers file and compare the output with the snapshot of that file.
+ * Missing snapshots are written, snapshots that differ fail unless `update` is set.
+ */
+async function testTemplate(templateDir: string, fixtures: string[], options: TemplateTestOptions = {}): Promise<SnapshotResult[]> {
+    const results: SnapshotResult[] = [];
+    const templatePath = path.resolve(templateDir);
+
+    for (const fixture of fixtures) {
+        const snapshotDir = getSnapshotDir(fixture);
+        const {stagingDir, manifest} = await fetchTemplate({name: templateDir, description: '', repo: `file:${templatePath}`}, {onEvent: () => undefined});
+
+        try {
+            const answers = await collectInputs(mergePlaceholders(options.placeholders ?? [], manifest.placeholders), {
+                presets: await loadAnswersFile(fixture),
+                yes: true,
+                interactive: false
+            });
+            const paths = (await renderTemplate(stagingDir, manifest, answers!, () => undefined)).map(report => report.path);
+
+            // Fixtures and snapshots kept in the template must be ignored, or they are generated too
+            const fixturePath = path.relative(templatePath, path.resolve(fixture));
+            const snapshotPath = path.relative(templatePath, path.resolve(snapshotDir));
+            const leaked = paths.find(filePath => filePath === fixturePath || filePath.startsWith(snapshotPath + path.sep));
+            if (leaked) {
+                throw new Error(`${leaked} is generated from the template, add ${path.dirname(fixturePath)} to its ${IGNORE_FILE}`);
+            }
+
+            if (!await fs.pathExists(snapshotDir)) {
+                await fs.copy(stagingDir, snapshotDir);
+                results.push({fixture, snapshotDir, status: 'written', changes: []});
+                continue;
+            }
+
+            const changes = await compareWithSnapshot(stagingDir, paths, snapshotDir);
+            if (changes.length > 0 && options.update) {
+                await fs.emptyDir(snapshotDir);
+                await fs.copy(stagingDir, snapshotDir);
+            }
+            results.push({fixture, snapshotDir, status: changes.length === 0 ? 'passed' : options.update ? 'updated' : 'failed', changes});
+        } finally {
+            await fs.remove(stagingDir);
+        }
+    }
+
+    return results;
+}
+
+function printSnapshotResults(results: SnapshotResult[]): void {
+    const labels: Record<SnapshotResult['status'], string> = {
+        passed: chalk.green('✓ passed'),
+        failed: chalk.red('✗ failed'),
+        written: chalk.green('✓ snapshot written'),
+        updated: chalk.yellow('✓ snapshot updated')
+    };
+
+    for (const result of results) {
+        console.log(`${labels[result.status]}  ${result.fixture} ${chalk.dim(`→ ${result.snapshotDir}`)}`);
+        if (result.status !== 'failed') {
+            continue;
+        }
+
+        for (const change of result.changes) {
+            if (change.change === 'modified') {
+                console.log(change.diff ? colorizeDiff(change.diff.trimEnd()) : chalk.dim(`Binary file ${change.path} differs`));
+            } else {
+                console.log(chalk.yellow(`  ${change.change === 'added' ? 'Not in the snapshot' : 'No longer generated'}: ${change.path}`));
+            }
+        }
+    }
+
+    const failed = results.filter(result => result.status === 'failed').length;
+    console.log(chalk.dim(`\n${results.length - failed} passed, ${failed} failed`));
+}
+
+export {
+    getSnapshotDir,
+    resolveFixtures,
+    testTemplate,
+    printSnapshotResults
+};
@@ -0,0 +1,454 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {Readable} from 'stream';
+import {pipeline} from 'stream/promises';
+import {extract} from 'tar';
+import degit from 'tiged';
+import {describeTokenSources, getAuthHeaders, resolveToken} from './auth';
+import type {AuthOptions, Token} from './auth';
+import {getCacheDir, readCacheEntry, writeCacheEntry} from './cache';
+import type {CacheEntry} from './cache';
+import {printEvent} from './events';
+import type {EventHandler} from './events';
+import {isPlainObject} from './layers';
+
+export type SourceType = 'github' | 'gitlab' | 'bitbucket' | 'local';
+
+export interface TemplateSource {
+    type: SourceType;
+    // Template spec as written in Template.repo or on the command line
+    raw: string;
+    // Remote sources only
+    host?: string;
+    owner?: string;
+    repo?: string;
+    subdir?: string;
+    ref?: string;
+    // Local sources only, absolute
+    path?: string;
+}
+
+export interface RequestOptions {
+    // Looked up with resolveToken() when unset, null for anonymous requests
+    token?: Token | null;
+    auth?: AuthOptions;
+    // Base URL of the host's API, e.g. https://api.github.com, for mirrors and tests
+    apiUrl?: string;
+}
+
+export interface DownloadOptions extends RequestOptions {
+    // Only use the cached copy, fail when there is none
+    offline?: boolean;
+    // Download again even when the cached copy is the latest commit
+    refresh?: boolean;
+    cacheDir?: string;
+    // Receives progress, printed when unset
+    onEvent?: EventHandler;
+}
+
+export interface DownloadResult {
+    // Commit the files come from, unset for local templates
+    version?: string;
+    // Whether the files came from the cache rather than the network
+    cached: boolean;
+}
+
+// The host could not be reached or did not answer, unlike a repository that does not exist
+export class SourceUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SourceUnavailableError';
+    }
+}
+
+// The host answered that the repository is not there, or not for us: 401, 403 or 404
+export class SourceAccessError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'SourceAccessError';
+    }
+}
+
+const DEFAULT_HOSTS: Record<Exclude<SourceType, 'local'>, string> = {
+    github: 'github.com',
+    gitlab: 'gitlab.com',
+    bitbucket: 'bitbucket.org'
+};
+
+const REMOTE_PREFIXES = ['github:', 'gitlab:', 'bitbucket:'];
+
+/**
+ * Whether a spec names a source explicitly, rather than being a bare template name
+ * that should be looked up in the registries or prefixed with `phucbm/`.
+ */
+function isExplicitSource(spec: string): boolean {
+    return spec.includes('/')
+        || spec.startsWith('file:')
+        || REMOTE_PREFIXES.some(prefix => spec.startsWith(prefix))
+        || path.isAbsolute(spec);
+}
+
+function isLocalSpec(spec: string): boolean {
+    return spec.startsWith('file:')
+        || path.isAbsolute(spec)
+        || spec === '.' || spec === '..'
+        || spec.startsWith('./') || spec.startsWith('../') || spec.startsWith('~/');
+}
+
+function parseTemplateSource(spec: string, cwd: string = process.cwd()): TemplateSource {
+    const raw = spec.trim();
+
+    if (isLocalSpec(raw)) {
+        let localPath = raw.startsWith('file:') ? raw.slice('file:'.length).replace(/^\/\/(?=\/)/, '') : raw;
+        if (localPath.startsWith('~/')) {
+            localPath = path.join(os.homedir(), localPath.slice(2));
+        }
+        if (localPath.includes('#')) {
+            throw new Error(`Invalid template source "${raw}": refs are not supported for local templates`);
+        }
+        return {type: 'local', raw, path: path.resolve(cwd, localPath)};
+    }
+
+    let type: SourceType = 'github';
+    let rest = raw;
+    const prefix = REMOTE_PREFIXES.find(p => raw.startsWith(p));
+    if (prefix) {
+        type = prefix.slice(0, -1) as SourceType;
+        rest = raw.slice(prefix.length);
+    }
+
+    const [location, ref] = rest.split('#', 2);
+    // GitLab projects can sit in subgroups, so like in GitLab URLs a "/-/" ends the project path:
+    // gitlab:group/subgroup/project/-/templates/lib
+    const [projectPath, subPath] = type === 'gitlab' ? location.split(/\/-(?:\/|$)/, 2) : [location];
+    const segments = projectPath.split('/').filter(Boolean);
+
+    // A first segment with a dot is a host, e.g. gitlab:gitlab.example.com/group/repo
+    let host = DEFAULT_HOSTS[type as keyof typeof DEFAULT_HOSTS];
+    if (segments.length > 2 && segments[0].includes('.')) {
+        host = segments.shift()!;
+    }
+
+    if (segments.length < 2 || (ref !== undefined && !ref)) {
+        throw new Error(`Invalid template source "${raw}", expected [${REMOTE_PREFIXES.join('|')}]owner/repo[/subdir][#ref]`);
+    }
+
+    const [owner, repo, ...subdir] = subPath === undefined
+        ? segments
+        : [segments.slice(0, -1).join('/'), segments[segments.length - 1], ...subPath.split('/').filter(Boolean)];
+
+    return {
+        type,
+        raw,
+        host,
+        owner,
+        repo: repo.replace(/\.git$/, ''),
+        subdir: subdir.length > 0 ? subdir.join('/') : undefined,
+        ref: ref || undefined
+    };
+}
+
+// owner/repo/subdir, with the "/-" that ends the project path when the owner is a GitLab subgroup
+function formatLocation(source: TemplateSource): string {
+    if (source.owner?.includes('/')) {
+        return `${source.owner}/${source.repo}/-${source.subdir ? `/${source.subdir}` : ''}`;
+    }
+    return [source.owner, source.repo, source.subdir].filter(Boolean).join('/');
+}
+
+function describeSource(source: TemplateSource): string {
+    if (source.type === 'local') {
+        return source.path!;
+    }
+
+    const location = formatLocation(source);
+    return `${source.type}:${source.host === DEFAULT_HOSTS[source.type] ? '' : `${source.host}/`}${location}${source.ref ? `#${source.ref}` : ''}`;
+}
+
+/**
+ * Build the source string tiged understands.
+ * Self-hosted instances are passed as a URL, which tiged clones with git.
+ */
+function toTigedSource(source: TemplateSource): string {
+    const location = [source.owner, source.repo, source.subdir].filter(Boolean).join('/');
+    const ref = source.ref ? `#${source.ref}` : '';
+
+    if (source.host !== DEFAULT_HOSTS[source.type as keyof typeof DEFAULT_HOSTS]) {
+        return `https://${source.host}/${location}${ref}`;
+    }
+
+    return `${source.type}:${location}${ref}`;
+}
+
+function getApiBaseUrl(source: TemplateSource): string {
+    switch (source.type) {
+        case 'gitlab':
+            return `https://${source.host}/api/v4`;
+        case 'bitbucket':
+            return 'https://api.bitbucket.org/2.0';
+        default:
+            return source.host === DEFAULT_HOSTS.github ? 'https://api.github.com' : `https://${source.host}/api/v3`;
+    }
+}
+
+function getApiUrl(source: TemplateSource, apiUrl: string = getApiBaseUrl(source)): string {
+    const repoPath = `${source.owner}/${source.repo}`;
+
+    switch (source.type) {
+        case 'gitlab':
+            return `${apiUrl}/projects/${encodeURIComponent(repoPath)}`;
+        case 'bitbucket':
+            return `${apiUrl}/repositories/${repoPath}`;
+        default:
+            return `${apiUrl}/repos/${repoPath}`;
+    }
+}
+
+async function withToken(source: TemplateSource, options: RequestOptions): Promise<RequestOptions> {
+    const token = options.token !== undefined ? options.token : await resolveToken(source.type, source.host!, options.auth);
+    return {...options, token};
+}
+
+/**
+ * GET from the host's API with the token, if any. Failures say what went wrong:
+ * an unreachable host or a rate limit (SourceUnavailableError, the cache can stand in),
+ * or a rejected token, missing permissions or a missing repository (SourceAccessError).
+ */
+async function requestApi(url: string, source: TemplateSource, options: RequestOptions = {}): Promise<Response> {
+    const repoName = `${source.owner}/${source.repo}`;
+    const host = source.host!;
+    const token = options.token ?? null;
+
+    let response: Response;
+    try {
+        response = await fetch(url, {headers: getAuthHeaders(source.type, token)});
+    } catch (error) {
+        // fetch() only says "fetch failed", the reason is in its cause
+        const cause = (error as { cause?: { message?: string } }).cause?.message ?? (error instanceof Error ? error.message : String(error));
+        throw new SourceUnavailableError(`Could not reach ${host}: ${cause}`);
+    }
+
+    if (response.ok) {
+        return response;
+    }
+
+    const howToAuthenticate = describeTokenSources(source.type, host);
+    const remaining = response.headers.get('x-ratelimit-remaining') ?? response.headers.get('ratelimit-remaining');
+    if (response.status === 429 || (response.status === 403 && remaining === '0')) {
+        const reset = Number(response.headers.get('x-ratelimit-reset') ?? response.headers.get('ratelimit-reset'));
+        const resetsAt = reset ? `, it resets at ${new Date(reset * 1000).toLocaleTimeString()}` : '';
+        throw new SourceUnavailableError(`API rate limit of ${host} exceeded${resetsAt}${token ? '' : `. For a higher limit, ${howToAuthenticate}`}`);
+    }
+
+    switch (response.status) {
+        case 401:
+            throw new SourceAccessError(token
+                ? `${host} rejected the token from ${token.from} (401), it may have expired or been revoked`
+                : `${host} requires authentication for "${repoName}" (401), ${howToAuthenticate}`, 401);
+        case 403:
+            throw new SourceAccessError(token
+                ? `The token from ${token.from} is not allowed to read "${repoName}" on ${host} (403), check its scopes`
+                : `Access to "${repoName}" on ${host} was denied (403), ${howToAuthenticate}`, 403);
+        case 404:
+            // Hosts answer 404 rather than 403 for private repositories
+            throw new SourceAccessError(token
+                ? `Template repository "${repoName}" not found on ${host}, or the token from ${token.from} cannot access it`
+                : `Template repository "${repoName}" not found on ${host}. If it is private, ${howToAuthenticate}`, 404);
+        default:
+            throw new SourceUnavailableError(`Could not check "${repoName}" on ${host}: ${response.status} ${response.statusText}`);
+    }
+}
+
+async function validateTemplate(spec: string, options: RequestOptions = {}): Promise<void> {
+    const source = parseTemplateSource(spec);
+
+    if (source.type === 'local') {
+        if (!await fs.pathExists(source.path!) || !(await fs.stat(source.path!)).isDirectory()) {
+            throw new Error(`Template directory "${source.path}" not found`);
+        }
+        return;
+    }
+
+    // Check if the repo exists by trying to access it through the host's API
+    await requestApi(getApiUrl(source, options.apiUrl), source, await withToken(source, options));
+}
+
+function getCommitUrl(source: TemplateSource, apiUrl?: string): string {
+    const repoUrl = getApiUrl(source, apiUrl);
+    const ref = source.ref ? encodeURIComponent(source.ref) : undefined;
+
+    switch (source.type) {
+        case 'gitlab':
+            return `${repoUrl}/repository/commits/${ref ?? 'HEAD'}`;
+        case 'bitbucket':
+            // Without a ref, the newest commit of the main branch comes first
+            return ref ? `${repoUrl}/commit/${ref}` : `${repoUrl}/commits?pagelen=1`;
+        default:
+            return `${repoUrl}/commits/${ref ?? 'HEAD'}`;
+    }
+}
+
+function getArchiveUrl(source: TemplateSource, version: string, apiUrl?: string): string {
+    switch (source.type) {
+        case 'gitlab':
+            return `${getApiUrl(source, apiUrl)}/repository/archive.tar.gz?sha=${version}`;
+        case 'bitbucket':
+            return `https://${source.host}/${source.owner}/${source.repo}/get/${version}.tar.gz`;
+        default:
+            return `${getApiUrl(source, apiUrl)}/tarball/${version}`;
+    }
+}
+
+/**
+ * The commit a remote source currently points to, through the host's API.
+ * This also checks that the repository and ref exist.
+ */
+async function resolveTemplateVersion(source: TemplateSource, options: RequestOptions = {}): Promise<string> {
+    const repoName = `${source.owner}/${source.repo}`;
+    let response: Response;
+    try {
+        response = await requestApi(getCommitUrl(source, options.apiUrl), source, options);
+    } catch (error) {
+        if (error instanceof SourceAccessError && error.status === 404 && source.ref) {
+            // Tell a missing ref from a missing repository, this throws for the latter
+            await requestApi(getApiUrl(source, options.apiUrl), source, options);
+            throw new SourceAccessError(`Ref "${source.ref}" not found in template repository "${repoName}" on ${source.host}`, 404);
+        }
+        throw error;
+    }
+
+    // A body that is not the expected JSON is treated like an unreachable host, the cache can stand in
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch {
+        body = undefined;
+    }
+    // Bitbucket lists the commits in "values", the other hosts answer with the commit itself
+    const commit = isPlainObject(body) && Array.isArray(body.values) ? body.values[0] : body;
+    const version = isPlainObject(commit) ? [commit.sha, commit.id, commit.hash].find((value): value is string => typeof value === 'string') : undefined;
+    if (!version) {
+        throw new SourceUnavailableError(`Could not read the latest commit of "${repoName}" from ${source.host}`);
+    }
+    return version;
+}
+
+/**
+ * Download and unpack a commit through the API, which unlike tiged can send a token
+ * and fetch any commit.
+ */
+async function downloadArchive(source: TemplateSource, version: string, targetDir: string, options: RequestOptions): Promise<void> {
+    const response = await requestApi(getArchiveUrl(source, version, options.apiUrl), source, options);
+    const archive = Buffer.from(await response.arrayBuffer());
+    const subdir = source.subdir?.split('/').filter(Boolean) ?? [];
+
+    await fs.ensureDir(targetDir);
+    await pipeline(Readable.from([archive]), extract({
+        cwd: targetDir,
+        // Archives have a single top-level directory, e.g. owner-repo-<sha>/
+        strip: 1 + subdir.length,
+        filter: entryPath => subdir.every((segment, i) => entryPath.split('/')[i + 1] === segment)
+    }));
+
+    if (subdir.length > 0 && (await fs.readdir(targetDir)).length === 0) {
+        throw new Error(`"${source.subdir}" not found in ${source.owner}/${source.repo} at ${version.slice(0, 7)}`);
+    }
+}
+
+// A ref that names a commit rather than a branch or tag, e.g. "3f2c1ab" or a full SHA
+const isCommitRef = (ref?: string) => Boolean(ref && /^[0-9a-f]{7,40}$/i.test(ref));
+
+/**
+ * Copy a template into `targetDir`. Remote templates go through the local cache:
+ * the cached copy is used when it is the latest commit, when `offline` is set,
+ * or when the host cannot be reached.
+ */
+async function downloadTemplate(spec: string, targetDir: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const source = parseTemplateSource(spec);
+    const name = describeSource(source);
+    const onEvent = options.onEvent ?? printEvent;
+
+    if (source.type === 'local') {
+        onEvent({type: 'fetch', source: name, local: true});
+        await fs.copy(source.path!, targetDir, {
+            overwrite: true,
+            // Same directories getAllFiles() skips
+            filter: src => !['node_modules', '.git'].includes(path.basename(src))
+        });
+        onEvent({type: 'fetched', source: name, cached: false});
+        return {cached: false};
+    }
+
+    const cacheDir = options.cacheDir ?? getCacheDir();
+    const cached = await readCacheEntry(cacheDir, name);
+
+    async function useCached(entry: CacheEntry, reason: string): Promise<DownloadResult> {
+        await fs.copy(entry.filesDir, targetDir, {overwrite: true});
+        onEvent({type: 'fetched', source: name, version: entry.version, cached: true, reason});
+        return {version: entry.version, cached: true};
+    }
+
+    const downloadedOn = (entry: CacheEntry) => `downloaded ${entry.fetchedAt.slice(0, 10)}`;
+
+    if (options.offline) {
+        if (!cached) {
+            throw new Error(`Template ${name} is not in the cache, run once without --offline to download it`);
+        }
+        return useCached(cached, `offline, ${downloadedOn(cached)}`);
+    }
+
+    const request = await withToken(source, options);
+    onEvent({type: 'fetch', source: name, local: false, authenticatedWith: request.token?.from});
+    let version: string;
+    try {
+        version = await resolveTemplateVersion(source, request);
+    } catch (error) {
+        if (error instanceof SourceUnavailableError && cached) {
+            onEvent({type: 'fallback', source: name, reason: error.message});
+            return useCached(cached, downloadedOn(cached));
+        }
+        throw error;
+    }
+
+    if (cached && cached.version === version && !options.refresh) {
+        return useCached(cached, 'up to date');
+    }
+
+    onEvent({type: 'download', source: name, version, previousVersion: cached?.version});
+    let entry: CacheEntry;
+    try {
+        // tiged gets the resolved commit so the files match the version recorded for them.
+        // It only finds commits at the tip of a branch or tag, pinned commits go through the API,
+        // as do projects in GitLab subgroups, which tiged takes for subdirectories.
+        entry = await writeCacheEntry(cacheDir, name, version, dir => request.token || isCommitRef(source.ref) || source.owner!.includes('/')
+            ? downloadArchive(source, version, dir, request)
+            : degit(toTigedSource({...source, ref: version}), {
+                cache: false,
+                force: true,
+                verbose: false
+            }).clone(dir));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (cached) {
+            onEvent({type: 'fallback', source: name, reason: `Failed to download template: ${message}`});
+            return useCached(cached, downloadedOn(cached));
+        }
+        throw new Error(`Failed to download template: ${message}`);
+    }
+
+    await fs.copy(entry.filesDir, targetDir, {overwrite: true});
+    onEvent({type: 'fetched', source: name, version, cached: false});
+    return {version, cached: false};
+}
+
+export {
+    isExplicitSource,
+    parseTemplateSource,
+    describeSource,
+    toTigedSource,
+    getApiUrl,
+    validateTemplate,
+    resolveTemplateVersion,
+    downloadTemplate
+};
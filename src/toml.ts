@@ -0,0 +1,262 @@
+import {parse} from 'smol-toml';
+
+export type TomlPath = (string | number)[];
+
+interface Statement {
+    // Full key of a `key = value` line, tables included
+    path: string[];
+    // Offsets of the value, the rest of the line (comments) is left alone
+    valueStart: number;
+    valueEnd: number;
+    // End of the line the statement ends on
+    lineEnd: number;
+}
+
+interface Table {
+    // Unset for [[array.tables]], whose keys cannot be addressed by a path
+    path?: string[];
+    // Where a new key of this table goes: after its last statement, or after the header
+    insertAt: number;
+}
+
+const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+
+function skipString(text: string, i: number): number {
+    const quote = text[i];
+    if (text.startsWith(quote.repeat(3), i)) {
+        const end = text.indexOf(quote.repeat(3), i + 3);
+        let close = end < 0 ? text.length : end + 3;
+        // """a"""" is a valid string ending with a quote
+        while (text[close] === quote) {
+            close++;
+        }
+        return close;
+    }
+
+    for (let j = i + 1; j < text.length; j++) {
+        if (quote === '"' && text[j] === '\\') {
+            j++;
+        } else if (text[j] === quote || text[j] === '\n') {
+            return j + 1;
+        }
+    }
+    return text.length;
+}
+
+function lineEnd(text: string, i: number): number {
+    const end = text.indexOf('\n', i);
+    return end < 0 ? text.length : end;
+}
+
+// End of a value starting at `start`: strings, arrays and inline tables may contain # and newlines
+function valueEnd(text: string, start: number): number {
+    let depth = 0;
+    let end = start;
+
+    for (let i = start; i < text.length;) {
+        const char = text[i];
+        if (char === '"' || char === '\'') {
+            i = skipString(text, i);
+            end = i;
+        } else if (char === '[' || char === '{') {
+            depth++;
+            end = ++i;
+        } else if (char === ']' || char === '}') {
+            depth--;
+            end = ++i;
+        } else if (char === '#') {
+            if (depth === 0) {
+                break;
+            }
+            i = lineEnd(text, i);
+        } else if (char === '\n') {
+            if (depth === 0) {
+                break;
+            }
+            i++;
+        } else {
+            if (!/\s/.test(char)) {
+                end = i + 1;
+            }
+            i++;
+        }
+    }
+
+    return end;
+}
+
+function parseKey(raw: string): string[] {
+    const segments: string[] = [];
+    const pattern = /\s*("(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_-]+)\s*(?:\.|$)/y;
+    let match: RegExpExecArray | null;
+
+    while (pattern.lastIndex < raw.length && (match = pattern.exec(raw))) {
+        const key = match[1];
+        segments.push(key.startsWith('"') ? JSON.parse(key) : key.startsWith('\'') ? key.slice(1, -1) : key);
+    }
+
+    return segments;
+}
+
+/**
+ * Find the `key = value` statements and tables of a TOML document, with their offsets.
+ */
+function scan(text: string): { statements: Statement[]; tables: Table[] } {
+    const statements: Statement[] = [];
+    const root: Table = {path: [], insertAt: 0};
+    const tables: Table[] = [root];
+    let table = root;
+
+    for (let i = 0; i < text.length;) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (char === '#') {
+            i = lineEnd(text, i);
+            continue;
+        }
+
+        if (char === '[') {
+            const isArray = text[i + 1] === '[';
+            const close = text.indexOf(isArray ? ']]' : ']', i);
+            const end = lineEnd(text, i);
+            table = {
+                path: isArray ? undefined : parseKey(text.slice(i + 1, close)),
+                insertAt: end
+            };
+            tables.push(table);
+            i = end;
+            continue;
+        }
+
+        const equals = text.indexOf('=', i);
+        if (equals < 0 || equals > lineEnd(text, i)) {
+            // Not something we understand, leave it to the parser to complain
+            i = lineEnd(text, i);
+            continue;
+        }
+
+        const valueStart = equals + 1 + (text.slice(equals + 1).match(/^[ \t]*/)?.[0].length ?? 0);
+        const end = valueEnd(text, valueStart);
+        const statementEnd = lineEnd(text, end);
+        if (table.path) {
+            statements.push({
+                path: [...table.path, ...parseKey(text.slice(i, equals))],
+                valueStart,
+                valueEnd: end,
+                lineEnd: statementEnd
+            });
+        }
+        table.insertAt = statementEnd;
+        i = statementEnd;
+    }
+
+    return {statements, tables};
+}
+
+function formatKey(key: string): string {
+    return BARE_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+function formatTomlValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return JSON.stringify(value);
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatTomlValue).join(', ')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).map(([key, item]) => `${formatKey(key)} = ${formatTomlValue(item)}`);
+        return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+    }
+    throw new Error(`Cannot write ${value === null ? 'null' : typeof value} values to TOML`);
+}
+
+function samePath(a: string[], b: TomlPath): boolean {
+    return a.length === b.length && a.every((segment, i) => segment === String(b[i]));
+}
+
+function getTomlValue(text: string, path: TomlPath): { exists: boolean; value: unknown } {
+    let value: unknown = parse(text);
+
+    for (const segment of path) {
+        if (!value || typeof value !== 'object' || !(segment in value)) {
+            return {exists: false, value: undefined};
+        }
+        value = (value as Record<string | number, unknown>)[segment];
+    }
+
+    return {exists: true, value};
+}
+
+/**
+ * Set a value in a TOML document, keeping comments and the formatting of everything else.
+ * Missing keys are added to their table, or to a new table at the end of the file.
+ */
+function setTomlValue(text: string, path: TomlPath, value: unknown): string {
+    if (path.length === 0 || path.some(segment => typeof segment === 'number')) {
+        throw new Error(`Cannot set "${path.join('.')}": TOML paths must be table keys`);
+    }
+
+    const keys = path.map(String);
+    const {statements, tables} = scan(text);
+    const formatted = formatTomlValue(value);
+    const statement = statements.find(s => samePath(s.path, keys));
+    let result: string;
+
+    if (statement) {
+        result = text.slice(0, statement.valueStart) + formatted + text.slice(statement.valueEnd);
+    } else {
+        const eol = text.includes('\r\n') ? '\r\n' : '\n';
+        // The deepest existing table the key can go in, with dotted keys for the rest
+        const table = tables
+            .filter(t => t.path && t.path.length < keys.length && samePath(t.path, keys.slice(0, t.path.length)))
+            .sort((a, b) => (b.path?.length ?? 0) - (a.path?.length ?? 0))[0];
+        const tablePath = table.path ?? [];
+
+        if (tablePath.length === 0 && keys.length > 1 && tables.length > 1) {
+            // A new table at the end reads better than a dotted key at the top
+            const separator = text.length === 0 || text.endsWith('\n') ? '' : eol;
+            result = `${text}${separator}${eol}[${keys.slice(0, -1).map(formatKey).join('.')}]${eol}${formatKey(keys[keys.length - 1])} = ${formatted}${eol}`;
+        } else {
+            const line = `${keys.slice(tablePath.length).map(formatKey).join('.')} = ${formatted}`;
+            const at = table.insertAt;
+            result = at === 0 && tablePath.length === 0
+                ? `${line}${eol}${text}`
+                : `${text.slice(0, at)}${eol}${line}${text.slice(at)}`;
+        }
+    }
+
+    try {
+        parse(result);
+    } catch (error) {
+        throw new Error(`Cannot set "${keys.join('.')}": the TOML layout is not supported (${error instanceof Error ? error.message.split('\n')[0] : error})`);
+    }
+    return result;
+}
+
+/**
+ * Remove a `key = value` statement, with its line. Keys inside inline tables cannot be removed.
+ */
+function removeTomlValue(text: string, path: TomlPath): string {
+    const statement = scan(text).statements.find(s => samePath(s.path, path.map(String)));
+    if (!statement) {
+        throw new Error(`Cannot remove "${path.join('.')}": only keys on their own line can be removed from TOML`);
+    }
+
+    const lineStart = text.lastIndexOf('\n', statement.valueStart) + 1;
+    const end = statement.lineEnd < text.length ? statement.lineEnd + 1 : statement.lineEnd;
+    return text.slice(0, lineStart) + text.slice(end);
+}
+
+export {
+    formatTomlValue,
+    getTomlValue,
+    setTomlValue,
+    removeTomlValue
+};
@@ -0,0 +1,85 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export class CancelledError extends Error {
+    constructor(message = 'Operation cancelled') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+export interface Transaction {
+    // Call before writing `filePath`, so the current state can be restored
+    track(filePath: string): Promise<void>;
+    // Keep the changes and drop the backups
+    commit(): Promise<void>;
+    // Restore overwritten files and remove everything created since the transaction started
+    rollback(): Promise<void>;
+}
+
+interface Entry {
+    filePath: string;
+    // Copy of the previous contents, unset for files the transaction created
+    backup?: string;
+}
+
+/**
+ * Record the files about to be written, so a failed or cancelled generation
+ * leaves the target exactly as it was.
+ */
+async function createTransaction(): Promise<Transaction> {
+    const backupDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-backup-'));
+    const entries: Entry[] = [];
+    const tracked = new Set<string>();
+    // Topmost directories that did not exist yet, removing them removes everything below
+    const createdDirs: string[] = [];
+
+    return {
+        async track(filePath) {
+            const absolutePath = path.resolve(filePath);
+            if (tracked.has(absolutePath)) {
+                return;
+            }
+            tracked.add(absolutePath);
+
+            let missingDir: string | undefined;
+            for (let dir = path.dirname(absolutePath); !await fs.pathExists(dir); dir = path.dirname(dir)) {
+                missingDir = dir;
+            }
+            if (missingDir) {
+                createdDirs.push(missingDir);
+            }
+
+            if (await fs.pathExists(absolutePath)) {
+                const backup = path.join(backupDir, String(entries.length));
+                await fs.copy(absolutePath, backup);
+                entries.push({filePath: absolutePath, backup});
+            } else {
+                entries.push({filePath: absolutePath});
+            }
+        },
+
+        async commit() {
+            await fs.remove(backupDir);
+        },
+
+        async rollback() {
+            for (const {filePath, backup} of [...entries].reverse()) {
+                if (backup) {
+                    await fs.copy(backup, filePath, {overwrite: true});
+                } else {
+                    await fs.remove(filePath);
+                }
+            }
+            for (const dir of [...createdDirs].reverse()) {
+                await fs.remove(dir);
+            }
+            await fs.remove(backupDir);
+        }
+    };
+}
+
+export {
+    createTransaction
+};
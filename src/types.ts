@@ -0,0 +1,120 @@
+export interface Template {
+    name: string;
+    description: string;
+    repo: string;
+    // For filtering with `list --tag`, the first one is the category the template is grouped under
+    tags?: string[];
+    // Registry name or source of the template this one is merged on top of
+    extends?: string;
+    // Registry names or sources of templates merged on top of this one, in order
+    layers?: string[];
+    // Replace keys written without delimiters, for templates made before tags, like the manifest setting
+    bareKeys?: boolean;
+}
+
+export type PlaceholderType = 'text' | 'select' | 'multiselect' | 'confirm' | 'number' | 'password';
+
+export type BuiltinValidator = 'npm-name' | 'semver' | 'email' | 'url';
+
+export type AnswerValue = string | number | boolean | string[];
+
+export interface PlaceholderChoice {
+    value: string;
+    title?: string;
+    description?: string;
+}
+
+export interface Placeholder {
+    key: string;
+    prompt: string;
+    default: AnswerValue;
+    required: boolean;
+    // Defaults to "text"
+    type?: PlaceholderType;
+    // Options of select and multiselect placeholders
+    choices?: Array<string | PlaceholderChoice>;
+    // Regular expression text answers must match
+    pattern?: string;
+    validate?: BuiltinValidator;
+    // Only ask when this condition on earlier answers holds, e.g. "USE_REACT" or "FRAMEWORK == vue"
+    when?: string;
+    // Computed from other answers instead of asked, e.g. "{{PROJECT_NAME | pascalCase}}"
+    derive?: string;
+    // Never recorded in the project's .gen-from.json, true by default for "password" placeholders
+    secret?: boolean;
+}
+
+export interface Config {
+    templates: Template[];
+    placeholders: Placeholder[];
+}
+
+export type ManifestPlaceholder = Partial<Placeholder> & { key: string };
+
+export interface FileFilter {
+    // Glob patterns of the files to process, every file when empty
+    include: string[];
+    // Glob patterns of files copied as they are, even when they match `include`
+    exclude: string[];
+}
+
+export interface Patch {
+    // Glob pattern of the JSON, YAML or TOML files to edit, relative to the project root
+    file: string;
+    // Dotted paths (`compilerOptions.strict`, `jobs.test.steps[0].name`) to values, created when missing
+    set?: Record<string, unknown>;
+    // Like `set`, but only where the file already has a value that is not an object or array
+    replace?: Record<string, unknown>;
+    // Items added to arrays the file already has, skipping the ones it contains
+    append?: Record<string, unknown[]>;
+    // Paths deleted when present
+    remove?: string[];
+}
+
+export interface Manifest {
+    // Placeholders merged over the global ones from placeholders.json
+    placeholders: ManifestPlaceholder[];
+    // Glob patterns (relative to the template root) that are not copied to the output
+    ignore: string[];
+    // Messages printed once the project has been generated
+    messages: string[];
+    // Files whose contents get placeholders replaced, binary files never do
+    process: FileFilter;
+    // Glob patterns of files copied exactly as they are, name and contents
+    verbatim: string[];
+    // File names changed on output, e.g. _gitignore to .gitignore
+    rename: Record<string, string>;
+    // Steps run after generation unless turned off with --no-install / --no-git
+    install: boolean;
+    git: boolean;
+    // Shell commands run in the generated project once the user confirms, placeholders are rendered first
+    postGenerate: string[];
+    // Structured edits applied after placeholders are replaced
+    patches: Patch[];
+    // Whether the built-in package.json patches run before the template's own
+    defaultPatches: boolean;
+    // Tag delimiters in file contents and names, gen-from.json itself always uses {{ and }}
+    delimiters: [string, string];
+    // Legacy templates also have keys replaced where they are written without delimiters
+    bareKeys: boolean;
+}
+
+export interface UserInputs {
+    [key: string]: AnswerValue;
+}
+
+export interface PlaceholderStats {
+    [key: string]: {
+        count: number;
+        replacement: string;
+    };
+}
+
+export interface InputOptions {
+    // Answers given up front (--answers file, GEN_FROM_VAR_* env, --var flags)
+    presets: UserInputs;
+    // Accept defaults and overwrite confirmations without asking
+    yes: boolean;
+    // Whether prompts can be shown at all (false in CI or when stdin is not a TTY)
+    interactive: boolean;
+}
@@ -0,0 +1,176 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import {decodeText, encodeText, isBinaryContent} from './files';
+import {mergeThreeWay} from './merge';
+import type {MergeLabels} from './merge';
+import {createTransaction} from './transaction';
+
+// What an update does to one file of the project
+export type UpdateAction =
+    // New in the template
+    | 'add'
+    // Unchanged in the project, replaced with the new template version
+    | 'update'
+    // Changed on both sides, merged without conflicts
+    | 'merge'
+    // Changed on both sides, merged with conflict markers
+    | 'conflict'
+    // Removed from the template and unchanged in the project
+    | 'delete'
+    // The template change could not be applied, the project file is left as it is
+    | 'keep';
+
+export interface UpdateChange {
+    // Path relative to the project
+    path: string;
+    action: UpdateAction;
+    // Merged text of `merge` and `conflict` changes with \n line endings, `add` and `update` copy the new template file
+    content?: string;
+    // Why a `keep` change was not applied
+    reason?: string;
+}
+
+export interface RenderedVersion {
+    // Directory holding the rendered template
+    dir: string;
+    // Relative paths of its files
+    paths: string[];
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+    return await fs.pathExists(filePath) ? fs.readFile(filePath) : null;
+}
+
+function mergeChange(filePath: string, ours: Buffer, theirs: Buffer, base: Buffer | null, labels: MergeLabels): UpdateChange {
+    if (isBinaryContent(ours) || isBinaryContent(theirs) || (base && isBinaryContent(base))) {
+        return {path: filePath, action: 'keep', reason: 'changed in the project, binary files are not merged'};
+    }
+
+    // Compared without BOMs and CRLF line endings, the project file keeps its own when written
+    const result = mergeThreeWay(decodeText(ours).text, decodeText(theirs).text, base ? decodeText(base).text : undefined, labels);
+    return {path: filePath, action: result.conflicts > 0 ? 'conflict' : 'merge', content: result.content};
+}
+
+/**
+ * Work out how the changes between two renderings of a template apply to a project:
+ * `base` is the version the project was generated from, `next` the one it moves to.
+ * The project's own changes win where the template did not change, files the template
+ * did not change are left out. Nothing is written.
+ */
+async function planUpdate(base: RenderedVersion, next: RenderedVersion, projectDir: string, labels: MergeLabels = {ours: 'project', theirs: 'template'}): Promise<UpdateChange[]> {
+    const changes: UpdateChange[] = [];
+    const paths = [...new Set([...base.paths, ...next.paths])].sort();
+
+    for (const filePath of paths) {
+        const before = base.paths.includes(filePath) ? await fs.readFile(path.join(base.dir, filePath)) : null;
+        const after = next.paths.includes(filePath) ? await fs.readFile(path.join(next.dir, filePath)) : null;
+        const current = await readIfExists(path.join(projectDir, filePath));
+
+        if ((before && after && before.equals(after)) || (current && after && current.equals(after))) {
+            continue;
+        }
+
+        if (!after) {
+            // Removed from the template
+            if (current && before!.equals(current)) {
+                changes.push({path: filePath, action: 'delete'});
+            } else if (current) {
+                changes.push({path: filePath, action: 'keep', reason: 'removed from the template, but changed in the project'});
+            }
+        } else if (!current) {
+            changes.push(before
+                ? {path: filePath, action: 'keep', reason: 'changed in the template, but deleted in the project'}
+                : {path: filePath, action: 'add'});
+        } else if (before && before.equals(current)) {
+            changes.push({path: filePath, action: 'update'});
+        } else {
+            // Without a base, a file the project added itself is merged on the lines both have in common
+            changes.push(mergeChange(filePath, current, after, before, labels));
+        }
+    }
+
+    return changes;
+}
+
+// Remove the directories a deleted file leaves empty, up to the project
+async function removeEmptyParents(filePath: string, projectDir: string): Promise<void> {
+    const root = path.resolve(projectDir);
+    for (let dir = path.dirname(path.resolve(filePath)); dir !== root && dir.startsWith(root); dir = path.dirname(dir)) {
+        if ((await fs.readdir(dir)).length > 0) {
+            break;
+        }
+        await fs.remove(dir);
+    }
+}
+
+/**
+ * Apply planned changes to the project, taking new files from `nextDir`.
+ * Like generation this happens in a transaction: if a write fails, the project is restored.
+ */
+async function applyUpdate(changes: UpdateChange[], nextDir: string, projectDir: string): Promise<void> {
+    const transaction = await createTransaction();
+
+    try {
+        for (const change of changes) {
+            const targetPath = path.join(projectDir, change.path);
+
+            switch (change.action) {
+                case 'add':
+                case 'update':
+                    await transaction.track(targetPath);
+                    await fs.copy(path.join(nextDir, change.path), targetPath, {overwrite: true});
+                    break;
+                case 'merge':
+                case 'conflict': {
+                    const existing = decodeText(await fs.readFile(targetPath));
+                    await transaction.track(targetPath);
+                    await fs.writeFile(targetPath, encodeText(change.content!, existing));
+                    break;
+                }
+                case 'delete':
+                    await transaction.track(targetPath);
+                    await fs.remove(targetPath);
+                    await removeEmptyParents(targetPath, projectDir);
+                    break;
+            }
+        }
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    await transaction.commit();
+}
+
+function printUpdateReport(changes: UpdateChange[]): void {
+    const byAction = (action: UpdateAction) => changes.filter(change => change.action === action).map(change => change.path);
+
+    if (changes.length === 0) {
+        console.log(chalk.dim('  No changes to apply'));
+        return;
+    }
+
+    const lists: [string, string[], (text: string) => string][] = [
+        ['Added', byAction('add'), chalk.green],
+        ['Updated', byAction('update'), chalk.green],
+        ['Merged', byAction('merge'), chalk.green],
+        ['Removed', byAction('delete'), chalk.yellow],
+        ['Merged with conflicts, resolve the markers in', byAction('conflict'), chalk.red]
+    ];
+    for (const [label, files, color] of lists) {
+        if (files.length > 0) {
+            console.log(color(`  ${label}: ${files.join(', ')}`));
+        }
+    }
+
+    for (const change of changes.filter(change => change.action === 'keep')) {
+        console.log(chalk.yellow(`  Not updated: ${change.path} (${change.reason})`));
+    }
+}
+
+export {
+    planUpdate,
+    applyUpdate,
+    printUpdateReport
+};
@@ -0,0 +1,8 @@
+// chalk is ESM-only, so jest gets a pass-through stand-in: every style returns the text unchanged
+type Chalk = ((text: string) => string) & { [style: string]: Chalk };
+
+const chalk: Chalk = new Proxy(((text: string) => text) as Chalk, {
+    get: () => chalk
+});
+
+export default chalk;
@@ -0,0 +1,84 @@
+import {formatHelp, parseCliArgs} from '../src/args';
+
+describe('Argument parsing', () => {
+    test('should imply the new command for a bare template', () => {
+        const args = parseCliArgs(['npm-utils-template', 'my-app']);
+
+        expect(args.command).toBe('new');
+        expect(args.explicitCommand).toBe(false);
+        expect(args.positionals).toEqual(['npm-utils-template', 'my-app']);
+    });
+
+    test('should not treat flags before the template as the template', () => {
+        const args = parseCliArgs(['--here', 'npm-utils-template']);
+
+        expect(args.here).toBe(true);
+        expect(args.positionals).toEqual(['npm-utils-template']);
+    });
+
+    test('should collect repeated --var flags and the answers file', () => {
+        const args = parseCliArgs(['new', 'tpl', '--var', 'USERNAME=john', '--var=PROJECT_NAME=app', '--answers', 'answers.yaml', '-y']);
+
+        expect(args.command).toBe('new');
+        expect(args.explicitCommand).toBe(true);
+        expect(args.vars).toEqual(['USERNAME=john', 'PROJECT_NAME=app']);
+        expect(args.answersFile).toBe('answers.yaml');
+        expect(args.yes).toBe(true);
+        expect(args.dryRun).toBe(false);
+        expect(parseCliArgs(['tpl', '--dry-run']).dryRun).toBe(true);
+        expect(parseCliArgs(['tpl', '--no-install', '--git'])).toMatchObject({install: false, git: true, scripts: undefined});
+    });
+
+    test('should split --with layers on commas', () => {
+        expect(parseCliArgs(['tpl']).with).toEqual([]);
+        expect(parseCliArgs(['tpl', '--with', 'docker, storybook', '--with=john/actions']).with).toEqual(['docker', 'storybook', 'john/actions']);
+        expect(() => parseCliArgs(['update', '--with', 'docker'])).toThrow('Option "--with" is not supported by "update"');
+        expect(parseCliArgs(['list', '--tag', 'react,vite']).tags).toEqual(['react', 'vite']);
+    });
+
+    test('should parse subcommands and their arguments', () => {
+        expect(parseCliArgs(['list']).command).toBe('list');
+        expect(parseCliArgs(['info', 'npm-utils-template']).positionals).toEqual(['npm-utils-template']);
+        expect(parseCliArgs(['validate', 'john/tpl']).command).toBe('validate');
+        expect(parseCliArgs(['cache', 'clear', 'john/tpl']).positionals).toEqual(['clear', 'john/tpl']);
+        expect(parseCliArgs(['info', 'tpl', '--offline'])).toMatchObject({offline: true, refresh: false});
+        expect(parseCliArgs(['update', 'my-app', '--to', 'v2.0.0', '--dry-run'])).toMatchObject({command: 'update', positionals: ['my-app'], to: 'v2.0.0', dryRun: true});
+        expect(parseCliArgs(['lint']).positionals).toEqual([]);
+        expect(parseCliArgs(['test', 'tpl', '--answers', 'a.json', 'b.json', '-u'])).toMatchObject({positionals: ['tpl', 'b.json'], answersFile: 'a.json', updateSnapshots: true});
+    });
+
+    test('should reject unknown flags and flags of other commands', () => {
+        expect(() => parseCliArgs(['--bogus'])).toThrow('Unknown option "--bogus"');
+        expect(() => parseCliArgs(['list', '--here'])).toThrow('Option "--here" is not supported by "list"');
+        expect(() => parseCliArgs(['tpl', '--here=yes'])).toThrow('does not take a value');
+        expect(() => parseCliArgs(['tpl', '--answers'])).toThrow('Missing value for "--answers"');
+        expect(() => parseCliArgs(['tpl', '--on-conflict=merge'])).toThrow('Invalid value "merge" for "--on-conflict"');
+        expect(parseCliArgs(['tpl', '--on-conflict', 'skip']).onConflict).toBe('skip');
+        expect(() => parseCliArgs(['tpl', '--git', '--no-git'])).toThrow('Use either "--git" or "--no-git"');
+        expect(() => parseCliArgs(['tpl', '--offline', '--refresh'])).toThrow('Use either "--offline" or "--refresh"');
+    });
+
+    test('should check the number of arguments', () => {
+        expect(() => parseCliArgs(['info'])).toThrow('Missing argument for "info"');
+        expect(() => parseCliArgs(['list', 'extra'])).toThrow('Unexpected argument "extra"');
+        expect(parseCliArgs(['info', '--help']).help).toBe(true);
+    });
+
+    test('should list commands and options in help output', () => {
+        const help = formatHelp();
+
+        expect(help).toContain('info <template>');
+        expect(help).toContain('--var <KEY=value>');
+        expect(formatHelp('list')).not.toContain('--here');
+    });
+
+    test('should keep at least two spaces between usages and descriptions', () => {
+        const rows = [formatHelp(), formatHelp('new'), formatHelp('test')].join('\n').split('\n').filter(line => line.startsWith('  '));
+
+        expect(formatHelp()).toContain('template <add|remove> <name> [repo]  Add or remove');
+        expect(formatHelp()).toContain('cache <list|clear> [template]  ');
+        for (const row of rows) {
+            expect(row.trim()).toMatch(/\S {2,}\S/);
+        }
+    });
+});
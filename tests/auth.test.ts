@@ -0,0 +1,162 @@
+import fs from 'fs-extra';
+import http from 'http';
+import type {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import {create} from 'tar';
+import {getAuthHeaders, resolveToken} from '../src/auth';
+import {downloadTemplate, SourceAccessError, SourceUnavailableError, validateTemplate} from '../src/sources';
+
+const SHA = 'f'.repeat(40);
+
+describe('Authentication', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.remove(tempDir);
+    });
+
+    test('should take tokens from the environment, then the auth file', async () => {
+        const options = {env: {XDG_CONFIG_HOME: tempDir}, gh: false};
+
+        expect(await resolveToken('github', 'github.com', options)).toBeNull();
+
+        await fs.outputJson(path.join(tempDir, 'gen-from', 'auth.json'), {tokens: {'github.com': 'from-file', 'git.acme.dev': 'acme'}});
+        expect(await resolveToken('github', 'github.com', options)).toEqual({value: 'from-file', from: path.join(tempDir, 'gen-from', 'auth.json')});
+        expect(await resolveToken('gitlab', 'git.acme.dev', options)).toMatchObject({value: 'acme'});
+
+        const env = {...options.env, GH_TOKEN: 'gh', GITHUB_TOKEN: 'github'};
+        expect(await resolveToken('github', 'github.com', {...options, env})).toEqual({value: 'github', from: 'GITHUB_TOKEN'});
+        expect(await resolveToken('github', 'github.com', {...options, env: {...env, GITHUB_TOKEN: ''}})).toEqual({value: 'gh', from: 'GH_TOKEN'});
+        expect(await resolveToken('gitlab', 'gitlab.com', {...options, env})).toBeNull();
+    });
+
+    test('should send tokens the way each host expects', () => {
+        const token = {value: 'secret', from: 'GITHUB_TOKEN'};
+
+        expect(getAuthHeaders('github', token)).toEqual({Authorization: 'Bearer secret'});
+        expect(getAuthHeaders('gitlab', token)).toEqual({'PRIVATE-TOKEN': 'secret'});
+        expect(getAuthHeaders('github', null)).toEqual({});
+    });
+
+    describe('against a mock API', () => {
+        let server: http.Server;
+        let apiUrl: string;
+        let archive: Buffer;
+        const requests: { url: string; authorization?: string }[] = [];
+
+        beforeAll(async () => {
+            const sourceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+            await fs.outputFile(path.join(sourceDir, `acme-private-${SHA}`, 'README.md'), '# Private');
+            await fs.outputFile(path.join(sourceDir, `acme-private-${SHA}`, 'packages', 'lib', 'index.ts'), 'export {};');
+            await create({gzip: true, cwd: sourceDir, file: path.join(sourceDir, 'archive.tar.gz')}, [`acme-private-${SHA}`]);
+            archive = await fs.readFile(path.join(sourceDir, 'archive.tar.gz'));
+            await fs.remove(sourceDir);
+
+            server = http.createServer((request, response) => {
+                const authorization = request.headers.authorization;
+                requests.push({url: request.url!, authorization});
+                const reply = (status: number, body: unknown = {}, headers: Record<string, string> = {}) => {
+                    response.writeHead(status, {'Content-Type': 'application/json', ...headers});
+                    response.end(JSON.stringify(body));
+                };
+
+                // Like GitHub: private repositories are 404 without a valid token
+                if (request.url!.startsWith('/repos/acme/private')) {
+                    if (authorization === 'Bearer expired') {
+                        return reply(401, {message: 'Bad credentials'});
+                    }
+                    if (authorization !== 'Bearer secret') {
+                        return reply(404, {message: 'Not Found'});
+                    }
+                    if (request.url === `/repos/acme/private/tarball/${SHA}`) {
+                        response.writeHead(200, {'Content-Type': 'application/gzip'});
+                        return response.end(archive);
+                    }
+                    if (request.url === '/repos/acme/private/commits/HEAD') {
+                        return reply(200, {sha: SHA});
+                    }
+                    return reply(request.url === '/repos/acme/private' ? 200 : 404);
+                }
+                // A public repository, where only pinned commits are downloaded through the API
+                if (request.url === '/repos/acme/public/commits/fffffff') {
+                    return reply(200, {sha: SHA});
+                }
+                if (request.url === `/repos/acme/public/tarball/${SHA}`) {
+                    response.writeHead(200, {'Content-Type': 'application/gzip'});
+                    return response.end(archive);
+                }
+                if (request.url!.startsWith('/repos/acme/limited')) {
+                    return reply(403, {message: 'API rate limit exceeded'}, {'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000'});
+                }
+                if (request.url!.startsWith('/repos/acme/sso')) {
+                    return reply(403, {message: 'Resource protected by organization SAML enforcement'});
+                }
+                reply(404, {message: 'Not Found'});
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        beforeEach(() => {
+            requests.length = 0;
+        });
+
+        const token = (value: string) => ({value, from: 'GITHUB_TOKEN'});
+
+        test('should download private templates with a token, subdir included', async () => {
+            const options = {apiUrl, cacheDir: path.join(tempDir, 'cache'), auth: {env: {GITHUB_TOKEN: 'secret'}, gh: false}};
+
+            expect(await downloadTemplate('acme/private', path.join(tempDir, 'full'), options)).toEqual({version: SHA, cached: false});
+            await downloadTemplate('acme/private/packages/lib', path.join(tempDir, 'lib'), options);
+
+            expect(await fs.readFile(path.join(tempDir, 'full', 'README.md'), 'utf-8')).toBe('# Private');
+            expect(await fs.readdir(path.join(tempDir, 'lib'))).toEqual(['index.ts']);
+            expect(requests.every(r => r.authorization === 'Bearer secret')).toBe(true);
+        });
+
+        test('should download pinned commits through the API without a token', async () => {
+            const options = {apiUrl, token: null, cacheDir: path.join(tempDir, 'cache')};
+
+            expect(await downloadTemplate('acme/public#fffffff', path.join(tempDir, 'pinned'), options)).toEqual({version: SHA, cached: false});
+            expect(await fs.readFile(path.join(tempDir, 'pinned', 'README.md'), 'utf-8')).toBe('# Private');
+            expect(requests.map(r => r.url)).toEqual(['/repos/acme/public/commits/fffffff', `/repos/acme/public/tarball/${SHA}`]);
+        });
+
+        test('should explain a 404 without a token and a rejected token', async () => {
+            await expect(validateTemplate('acme/private', {apiUrl, token: null}))
+                .rejects.toThrow('Template repository "acme/private" not found on github.com. If it is private, set GITHUB_TOKEN or GH_TOKEN');
+            await expect(validateTemplate('acme/private', {apiUrl, token: token('expired')}))
+                .rejects.toThrow('github.com rejected the token from GITHUB_TOKEN (401)');
+            await expect(validateTemplate('acme/private', {apiUrl, token: token('other')}))
+                .rejects.toThrow('or the token from GITHUB_TOKEN cannot access it');
+        });
+
+        test('should tell a missing ref from a missing repository', async () => {
+            const options = {apiUrl, token: token('secret'), cacheDir: path.join(tempDir, 'cache')};
+
+            await expect(downloadTemplate('acme/private#v9', path.join(tempDir, 'out'), options)).rejects.toThrow('Ref "v9" not found');
+            await expect(downloadTemplate('acme/missing#v9', path.join(tempDir, 'out'), options)).rejects.toThrow('Template repository "acme/missing" not found');
+        });
+
+        test('should tell rate limits from denied access', async () => {
+            const limited = validateTemplate('acme/limited', {apiUrl, token: null});
+            await expect(limited).rejects.toThrow(SourceUnavailableError);
+            await expect(limited).rejects.toThrow(/API rate limit of github\.com exceeded, it resets at .+\. For a higher limit, set GITHUB_TOKEN/);
+
+            const denied = validateTemplate('acme/sso', {apiUrl, token: token('secret')});
+            await expect(denied).rejects.toThrow(SourceAccessError);
+            await expect(denied).rejects.toThrow('The token from GITHUB_TOKEN is not allowed to read "acme/sso" on github.com (403)');
+        });
+    });
+});
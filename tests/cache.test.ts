@@ -0,0 +1,135 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import degit from 'tiged';
+import {clearCache, getCacheDir, listCacheEntries, readCacheEntry, writeCacheEntry} from '../src/cache';
+import {downloadTemplate} from '../src/sources';
+
+jest.mock('tiged');
+
+const mockedDegit = degit as unknown as jest.Mock;
+
+describe('Template cache', () => {
+    let tempDir: string;
+    let cacheDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        cacheDir = path.join(tempDir, 'cache');
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        mockedDegit.mockReset();
+        await fs.remove(tempDir);
+    });
+
+    test('should put the cache under XDG_CACHE_HOME or ~/.cache', () => {
+        expect(getCacheDir({env: {XDG_CACHE_HOME: '/xdg'}})).toBe(path.join('/xdg', 'gen-from'));
+        expect(getCacheDir({env: {}, homeDir: '/home/john'})).toBe(path.join('/home/john', '.cache', 'gen-from'));
+        expect(getCacheDir({env: {GEN_FROM_CACHE_DIR: '/tmp/templates'}})).toBe(path.resolve('/tmp/templates'));
+    });
+
+    test('should store, list and clear entries per source and ref', async () => {
+        await writeCacheEntry(cacheDir, 'github:john/tpl', 'a'.repeat(40), dir => fs.outputFile(path.join(dir, 'README.md'), 'main'));
+        await writeCacheEntry(cacheDir, 'github:john/tpl#v1', 'b'.repeat(40), dir => fs.outputFile(path.join(dir, 'README.md'), 'v1'));
+
+        const entry = await readCacheEntry(cacheDir, 'github:john/tpl#v1');
+        expect(entry).toMatchObject({source: 'github:john/tpl#v1', version: 'b'.repeat(40)});
+        expect(await fs.readFile(path.join(entry!.filesDir, 'README.md'), 'utf-8')).toBe('v1');
+        expect((await listCacheEntries(cacheDir)).map(e => e.source)).toEqual(['github:john/tpl', 'github:john/tpl#v1']);
+
+        await clearCache(cacheDir, e => e.source.endsWith('#v1'));
+        expect((await listCacheEntries(cacheDir)).map(e => e.source)).toEqual(['github:john/tpl']);
+
+        await clearCache(cacheDir);
+        expect(await listCacheEntries(cacheDir)).toEqual([]);
+    });
+
+    test('should keep the previous copy when a download fails', async () => {
+        await writeCacheEntry(cacheDir, 'github:john/tpl', 'a'.repeat(40), dir => fs.outputFile(path.join(dir, 'README.md'), 'old'));
+
+        await expect(writeCacheEntry(cacheDir, 'github:john/tpl', 'b'.repeat(40), async () => {
+            throw new Error('connection reset');
+        })).rejects.toThrow('connection reset');
+
+        expect(await readCacheEntry(cacheDir, 'github:john/tpl')).toMatchObject({version: 'a'.repeat(40)});
+        expect(await fs.readdir(path.join(cacheDir, 'templates'))).toHaveLength(1);
+    });
+
+    describe('when downloading remote templates', () => {
+        const latest = (sha: string) => jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify({sha}), {status: 200}));
+
+        beforeEach(() => {
+            mockedDegit.mockImplementation(() => ({
+                clone: (dir: string) => fs.outputFile(path.join(dir, 'README.md'), `downloaded ${mockedDegit.mock.calls.length}`)
+            }));
+        });
+
+        test('should download once and reuse the cache while the commit is the same', async () => {
+            const fetchMock = latest('c'.repeat(40));
+
+            expect(await downloadTemplate('john/tpl#v1', path.join(tempDir, 'first'), {cacheDir, token: null})).toEqual({version: 'c'.repeat(40), cached: false});
+            expect(await downloadTemplate('john/tpl#v1', path.join(tempDir, 'second'), {cacheDir, token: null})).toEqual({version: 'c'.repeat(40), cached: true});
+
+            expect(fetchMock).toHaveBeenCalledWith('https://api.github.com/repos/john/tpl/commits/v1', expect.anything());
+            expect(mockedDegit).toHaveBeenCalledTimes(1);
+            expect(await fs.readFile(path.join(tempDir, 'second', 'README.md'), 'utf-8')).toBe('downloaded 1');
+        });
+
+        test('should download again when the commit changed or with refresh', async () => {
+            latest('c'.repeat(40));
+            await downloadTemplate('john/tpl', path.join(tempDir, 'first'), {cacheDir, token: null});
+
+            latest('d'.repeat(40));
+            expect(await downloadTemplate('john/tpl', path.join(tempDir, 'second'), {cacheDir, token: null})).toEqual({version: 'd'.repeat(40), cached: false});
+            expect(await downloadTemplate('john/tpl', path.join(tempDir, 'third'), {cacheDir, token: null, refresh: true})).toMatchObject({cached: false});
+
+            expect(mockedDegit).toHaveBeenCalledTimes(3);
+            expect(await fs.readFile(path.join(tempDir, 'third', 'README.md'), 'utf-8')).toBe('downloaded 3');
+        });
+
+        test('should fall back to the cache when the host cannot be reached', async () => {
+            latest('c'.repeat(40));
+            await downloadTemplate('john/tpl', path.join(tempDir, 'first'), {cacheDir, token: null});
+
+            jest.spyOn(global, 'fetch').mockRejectedValue(Object.assign(new TypeError('fetch failed'), {cause: new Error('getaddrinfo ENOTFOUND api.github.com')}));
+            const result = await downloadTemplate('john/tpl', path.join(tempDir, 'second'), {cacheDir, token: null});
+
+            expect(result).toEqual({version: 'c'.repeat(40), cached: true});
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Could not reach github.com: getaddrinfo ENOTFOUND api.github.com'));
+            await expect(downloadTemplate('john/other', path.join(tempDir, 'third'), {cacheDir, token: null})).rejects.toThrow('Could not reach github.com');
+        });
+
+        test('should fall back to the cache when the answer has no commit', async () => {
+            latest('c'.repeat(40));
+            await downloadTemplate('john/tpl', path.join(tempDir, 'first'), {cacheDir, token: null});
+
+            for (const body of ['<html>maintenance</html>', '{"sha": 42}', '[]']) {
+                jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(body, {status: 200}));
+                expect(await downloadTemplate('john/tpl', path.join(tempDir, 'second'), {cacheDir, token: null})).toEqual({version: 'c'.repeat(40), cached: true});
+            }
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Could not read the latest commit of "john/tpl" from github.com'));
+        });
+
+        test('should not fall back to the cache for a missing repository or ref', async () => {
+            latest('c'.repeat(40));
+            await downloadTemplate('john/tpl#v1', path.join(tempDir, 'first'), {cacheDir, token: null});
+
+            jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('{}', {status: 404}));
+            await expect(downloadTemplate('john/tpl#v1', path.join(tempDir, 'second'), {cacheDir, token: null})).rejects.toThrow('Template repository "john/tpl" not found');
+        });
+
+        test('should only use the cache when offline', async () => {
+            const fetchMock = jest.spyOn(global, 'fetch');
+
+            await expect(downloadTemplate('john/tpl', path.join(tempDir, 'first'), {cacheDir, token: null, offline: true})).rejects.toThrow('is not in the cache');
+
+            await writeCacheEntry(cacheDir, 'github:john/tpl', 'e'.repeat(40), dir => fs.outputFile(path.join(dir, 'README.md'), 'cached'));
+            expect(await downloadTemplate('john/tpl', path.join(tempDir, 'second'), {cacheDir, token: null, offline: true})).toEqual({version: 'e'.repeat(40), cached: true});
+            expect(fetchMock).not.toHaveBeenCalled();
+            expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Using cached template github:john/tpl at eeeeeee'));
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {addUserTemplate, findProjectRegistries, getUserRegistryPath, loadConfig, mergeTemplates, removeUserTemplate} from '../src/config';
+
+describe('Template registries', () => {
+    let tempDir: string;
+    let packageDir: string;
+    let homeDir: string;
+    let projectDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        packageDir = path.join(tempDir, 'package');
+        homeDir = path.join(tempDir, 'home');
+        projectDir = path.join(tempDir, 'work', 'team', 'project');
+
+        await fs.outputJson(path.join(packageDir, 'templates.json'), [
+            {name: 'bundled', description: 'Bundled template', repo: 'phucbm/bundled'},
+            {name: 'shared', description: 'Bundled shared', repo: 'phucbm/shared'}
+        ]);
+        await fs.outputJson(path.join(packageDir, 'placeholders.json'), []);
+        await fs.ensureDir(projectDir);
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should de-duplicate by name with later registries winning', () => {
+        const merged = mergeTemplates(
+            [{name: 'a', description: '', repo: 'x/a'}, {name: 'b', description: '', repo: 'x/b'}],
+            [{name: 'a', description: 'override', repo: 'y/a'}]
+        );
+
+        expect(merged).toEqual([
+            {name: 'a', description: 'override', repo: 'y/a'},
+            {name: 'b', description: '', repo: 'x/b'}
+        ]);
+    });
+
+    test('should find .genfromrc files from the root down to cwd', async () => {
+        await fs.outputJson(path.join(tempDir, 'work', '.genfromrc'), []);
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), []);
+
+        const found = await findProjectRegistries(projectDir);
+
+        expect(found.slice(-2)).toEqual([
+            path.join(tempDir, 'work', '.genfromrc'),
+            path.join(projectDir, '.genfromrc')
+        ]);
+    });
+
+    test('should merge bundled, user, project and GEN_FROM_CONFIG registries in order', async () => {
+        const options = {cwd: projectDir, homeDir, env: {GEN_FROM_CONFIG: '../../../extra.json'}};
+
+        await fs.outputJson(getUserRegistryPath(options), [{name: 'shared', description: 'User shared', repo: 'me/shared'}]);
+        await fs.outputJson(path.join(tempDir, 'work', '.genfromrc'), {templates: [{name: 'team', repo: 'acme/team'}]});
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), {templates: [{name: 'team', description: 'Nearest', repo: 'acme/team-v2'}]});
+        await fs.outputJson(path.join(tempDir, 'extra.json'), [{name: 'bundled', description: 'Env override', repo: 'env/bundled'}]);
+
+        const config = await loadConfig(packageDir, options);
+
+        expect(config.templates).toEqual([
+            {name: 'bundled', description: 'Env override', repo: 'env/bundled'},
+            {name: 'shared', description: 'User shared', repo: 'me/shared'},
+            {name: 'team', description: 'Nearest', repo: 'acme/team-v2'}
+        ]);
+    });
+
+    test('should read extends and layers, and reject malformed ones', async () => {
+        const options = {cwd: projectDir, homeDir, env: {}};
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), [{name: 'web', repo: 'acme/web', extends: 'bundled', layers: ['acme/docker']}]);
+
+        expect((await loadConfig(packageDir, options)).templates[2]).toEqual({name: 'web', description: '', repo: 'acme/web', extends: 'bundled', layers: ['acme/docker']});
+
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), [{name: 'web', repo: 'acme/web', layers: 'acme/docker'}]);
+        await expect(loadConfig(packageDir, options)).rejects.toThrow('"layers" of web must be an array of template names or sources');
+
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), [{name: 'web', repo: 'acme/web', tags: 'react'}]);
+        await expect(loadConfig(packageDir, options)).rejects.toThrow('"tags" of web must be an array of strings');
+
+        await fs.outputJson(path.join(projectDir, '.genfromrc'), [{name: 'web', repo: 'acme/web', bareKeys: 'yes'}]);
+        await expect(loadConfig(packageDir, options)).rejects.toThrow('"bareKeys" of web must be true or false');
+    });
+
+    test('should fail when GEN_FROM_CONFIG points to a missing file', async () => {
+        await expect(loadConfig(packageDir, {cwd: projectDir, homeDir, env: {GEN_FROM_CONFIG: 'missing.json'}}))
+            .rejects.toThrow('from GEN_FROM_CONFIG not found');
+    });
+
+    test('should add and remove templates in the user registry', async () => {
+        const options = {homeDir, env: {}};
+        const template = {name: 'team', description: 'Team template', repo: 'acme/team'};
+
+        expect(await addUserTemplate(template, options)).toBe(false);
+        expect(await addUserTemplate({...template, repo: 'acme/team-v2'}, options)).toBe(true);
+        expect(await fs.readJson(getUserRegistryPath(options))).toEqual([{...template, repo: 'acme/team-v2'}]);
+
+        expect(await removeUserTemplate('team', options)).toBe(true);
+        expect(await removeUserTemplate('team', options)).toBe(false);
+        expect(await fs.readJson(getUserRegistryPath(options))).toEqual([]);
+    });
+});
@@ -0,0 +1,177 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {createFileMatcher, findEmbeddedKeys, isBinaryContent, processFile, processFiles, renamePaths, renderPathSegment} from '../src/files';
+
+describe('File processing', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should render template tags before replacing bare keys', async () => {
+        const filePath = path.join(tempDir, 'README.md');
+        await fs.writeFile(filePath, '# {{PROJECT_NAME | pascalCase}}\n{{#if USE_REACT}}React{{/if}}\nBy USERNAME');
+
+        const modified = await processFile(filePath, {PROJECT_NAME: 'my-app', USE_REACT: 'no', USERNAME: 'john'}, {rootDir: tempDir, bareKeys: true});
+
+        expect(modified).toBe(true);
+        expect(await fs.readFile(filePath, 'utf-8')).toBe('# MyApp\n\nBy john');
+    });
+
+    test('should fail with the relative path on template syntax errors', async () => {
+        const filePath = path.join(tempDir, 'src', 'index.ts');
+        await fs.outputFile(filePath, '// ok\n{{#if USE_REACT}}');
+
+        await expect(processFile(filePath, {}, {rootDir: tempDir})).rejects.toThrow(`${path.join('src', 'index.ts')}:2:`);
+    });
+
+    test('should only replace tags unless the template uses bare keys', async () => {
+        const filePath = path.join(tempDir, '.env.example');
+        await fs.writeFile(filePath, 'USERNAME={{USERNAME}}\nDB_USERNAME=admin\n\\{{USERNAME}} stays\n');
+        const onEvent = jest.fn();
+
+        await processFile(filePath, {USERNAME: 'john'}, {rootDir: tempDir, onEvent});
+        expect(await fs.readFile(filePath, 'utf-8')).toBe('USERNAME=john\nDB_USERNAME=admin\n{{USERNAME}} stays\n');
+        expect(onEvent).not.toHaveBeenCalled();
+
+        await fs.writeFile(filePath, 'USERNAME=<% USERNAME %>\nDB_USERNAME=admin\n');
+        await processFile(filePath, {USERNAME: 'john'}, {rootDir: tempDir, onEvent, delimiters: ['<%', '%>'], bareKeys: true});
+        expect(await fs.readFile(filePath, 'utf-8')).toBe('john=john\nDB_john=admin\n');
+        expect(onEvent).toHaveBeenCalledWith({type: 'warning', message: '.env.example: bare keys replaced inside longer names, USERNAME in DB_USERNAME (line 2)'});
+    });
+
+    test('should find keys inside longer names, except names that are keys themselves', () => {
+        const content = 'PROJECT_NAME_SLUG\nLICENSE_FILE=LICENSE\nMY_PROJECT_NAME';
+
+        expect(findEmbeddedKeys(content, ['PROJECT_NAME', 'PROJECT_NAME_SLUG', 'LICENSE'])).toEqual([
+            {key: 'LICENSE', identifier: 'LICENSE_FILE', line: 2},
+            {key: 'PROJECT_NAME', identifier: 'MY_PROJECT_NAME', line: 3}
+        ]);
+    });
+
+    test('should substitute placeholders in path segments', () => {
+        const inputs = {PROJECT_NAME: 'my-app', PROJECT_NAME_SLUG: 'slug'};
+
+        expect(renderPathSegment('__PROJECT_NAME__', inputs)).toBe('my-app');
+        expect(renderPathSegment('PROJECT_NAME.config.js', inputs)).toBe('PROJECT_NAME.config.js');
+        expect(renderPathSegment('PROJECT_NAME.config.js', inputs, undefined, {bareKeys: true})).toBe('my-app.config.js');
+        expect(renderPathSegment('PROJECT_NAME_SLUG.ts', inputs, undefined, {bareKeys: true})).toBe('slug.ts');
+        expect(renderPathSegment('{{PROJECT_NAME | pascalCase}}.tsx', inputs)).toBe('MyApp.tsx');
+        expect(renderPathSegment('__UNKNOWN__.ts', inputs)).toBe('__UNKNOWN__.ts');
+        expect(renderPathSegment('__constructor__.ts', inputs)).toBe('__constructor__.ts');
+    });
+
+    test('should rename nested files and directories', async () => {
+        await fs.outputFile(path.join(tempDir, 'src', '__PROJECT_NAME__', 'PROJECT_NAME.ts'), 'export {};');
+        await fs.outputFile(path.join(tempDir, 'PROJECT_NAME.config.js'), '');
+
+        const renamed = await renamePaths(tempDir, {PROJECT_NAME: 'app'}, {bareKeys: true});
+
+        expect(await fs.pathExists(path.join(tempDir, 'src', 'app', 'app.ts'))).toBe(true);
+        expect(await fs.pathExists(path.join(tempDir, 'app.config.js'))).toBe(true);
+        expect(renamed).toEqual(expect.arrayContaining([
+            {from: path.join('src', '__PROJECT_NAME__'), to: path.join('src', 'app')},
+            {from: path.join('src', '__PROJECT_NAME__', 'PROJECT_NAME.ts'), to: path.join('src', 'app', 'app.ts')},
+            {from: 'PROJECT_NAME.config.js', to: 'app.config.js'}
+        ]));
+    });
+
+    test('should keep files named like object internals', async () => {
+        for (const name of ['constructor', 'toString', 'hasOwnProperty']) {
+            await fs.outputFile(path.join(tempDir, name), '');
+        }
+
+        expect(await renamePaths(tempDir, {NAME: 'app'}, {renames: {_gitignore: '.gitignore'}})).toEqual([]);
+        expect((await fs.readdir(tempDir)).sort()).toEqual(['constructor', 'hasOwnProperty', 'toString']);
+    });
+
+    test('should refuse renames that would overwrite or escape', async () => {
+        await fs.outputFile(path.join(tempDir, '__NAME__.ts'), 'a');
+        await fs.outputFile(path.join(tempDir, 'app.ts'), 'b');
+
+        await expect(renamePaths(tempDir, {NAME: 'app'})).rejects.toThrow('already exists in the template');
+        await expect(renamePaths(tempDir, {NAME: '../app'})).rejects.toThrow('is not a valid file name');
+        expect(await fs.readFile(path.join(tempDir, 'app.ts'), 'utf-8')).toBe('b');
+    });
+
+    test('should detect binary files by their contents', () => {
+        expect(isBinaryContent(Buffer.from('<svg><title>my-app</title></svg>'))).toBe(false);
+        expect(isBinaryContent(Buffer.from('\uFEFFcafé\r\n'))).toBe(false);
+        expect(isBinaryContent(Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01]))).toBe(true);
+        expect(isBinaryContent(Buffer.from([0x52, 0x49, 0x46, 0x46, 0xff, 0xfe, 0x57]))).toBe(true);
+    });
+
+    test('should process text files without an extension list and leave binaries alone', async () => {
+        const svgPath = path.join(tempDir, 'logo.svg');
+        const binaryPath = path.join(tempDir, 'bin', 'tool');
+        const binary = Buffer.concat([Buffer.from('PROJECT_NAME'), Buffer.from([0x00, 0xff, 0xfe])]);
+        await fs.writeFile(svgPath, '<svg><title>{{PROJECT_NAME}}</title></svg>');
+        await fs.outputFile(binaryPath, binary);
+
+        expect(await processFile(svgPath, {PROJECT_NAME: 'my-app'})).toBe(true);
+        expect(await processFile(binaryPath, {PROJECT_NAME: 'my-app'})).toBe(false);
+        expect(await fs.readFile(svgPath, 'utf-8')).toBe('<svg><title>my-app</title></svg>');
+        expect((await fs.readFile(binaryPath)).equals(binary)).toBe(true);
+    });
+
+    test('should keep BOMs, CRLF line endings and file modes', async () => {
+        const scriptPath = path.join(tempDir, 'setup.sh');
+        const readmePath = path.join(tempDir, 'README.md');
+        await fs.writeFile(scriptPath, '#!/bin/sh\r\necho {{PROJECT_NAME}}\r\n{{#if USE_REACT}}\r\nreact\r\n{{/if}}\r\n');
+        await fs.chmod(scriptPath, 0o755);
+        await fs.writeFile(readmePath, '\uFEFF# {{PACKAGE_NAME}}\n');
+
+        await processFile(scriptPath, {PROJECT_NAME: 'my-app', USE_REACT: false});
+        await processFile(readmePath, {PACKAGE_NAME: '@john/my-app'});
+
+        expect(await fs.readFile(scriptPath, 'utf-8')).toBe('#!/bin/sh\r\necho my-app\r\n\r\n');
+        expect((await fs.stat(scriptPath)).mode & 0o777).toBe(0o755);
+        expect(await fs.readFile(readmePath, 'utf-8')).toBe('\uFEFF# @john/my-app\n');
+    });
+
+    test('should match files against include and exclude globs', () => {
+        const matches = createFileMatcher({include: ['src/**', '*.json'], exclude: ['src/fixtures/**']});
+
+        expect(matches(path.join('src', 'index.ts'))).toBe(true);
+        expect(matches('package.json')).toBe(true);
+        expect(matches('README.md')).toBe(false);
+        expect(matches(path.join('src', 'fixtures', 'data.json'))).toBe(false);
+        expect(createFileMatcher({include: [], exclude: []})('anything')).toBe(true);
+    });
+
+    test('should rename files for output and keep verbatim files as they are', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        await fs.outputFile(path.join(tempDir, '_gitignore'), 'dist\n');
+        await fs.outputFile(path.join(tempDir, '__PROJECT_NAME__', 'index.ts'), 'export const name = "{{PROJECT_NAME}}";\n');
+        await fs.outputFile(path.join(tempDir, '__PROJECT_NAME__', 'fixtures', '__PROJECT_NAME__.snap'), '{{PROJECT_NAME}}\n');
+
+        const reports = await processFiles(tempDir, {PROJECT_NAME: 'app'}, {
+            verbatim: ['__PROJECT_NAME__/fixtures/**'],
+            renames: {_gitignore: '.gitignore'}
+        });
+        jest.restoreAllMocks();
+
+        expect(reports.map(report => report.path).sort()).toEqual(['.gitignore', path.join('app', 'fixtures', '__PROJECT_NAME__.snap'), path.join('app', 'index.ts')]);
+        expect(await fs.readFile(path.join(tempDir, 'app', 'index.ts'), 'utf-8')).toBe('export const name = "app";\n');
+        expect(await fs.readFile(path.join(tempDir, 'app', 'fixtures', '__PROJECT_NAME__.snap'), 'utf-8')).toBe('{{PROJECT_NAME}}\n');
+    });
+
+    test('should count replaced values only, and each bare key once', async () => {
+        await fs.outputFile(path.join(tempDir, 'README.md'), '# {{PROJECT_NAME}}\n{{#if USE_REACT}}React{{/if}}\nPROJECT_NAME_SLUG\n');
+        const onEvent = jest.fn();
+
+        const reports = await processFiles(tempDir, {PROJECT_NAME: 'app', PROJECT_NAME_SLUG: 'slug', USE_REACT: 'yes'}, {bareKeys: true, onEvent});
+
+        expect(reports).toEqual([{path: 'README.md', replacements: 2}]);
+        const {stats} = onEvent.mock.calls.map(([event]) => event).find(event => event.type === 'processed');
+        expect(stats.PROJECT_NAME.count).toBe(1);
+        expect(stats.PROJECT_NAME_SLUG.count).toBe(1);
+        expect(stats.USE_REACT.count).toBe(0);
+    });
+});
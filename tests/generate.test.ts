@@ -0,0 +1,143 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {findTemplate, generate} from '../src/generate';
+import type {GenerateEvent} from '../src/events';
+import {InputError} from '../src/inputs';
+import {ConflictError} from '../src/merge';
+import * as sources from '../src/sources';
+import type {Config} from '../src/types';
+
+describe('Programmatic API', () => {
+    let tempDir: string;
+    let templateDir: string;
+    let targetDir: string;
+
+    const config: Config = {
+        templates: [{name: 'lib', description: 'Library', repo: 'john/lib-template'}],
+        placeholders: [
+            {key: 'PROJECT_NAME', prompt: 'Project name:', default: '', required: true},
+            {key: 'AUTHOR', prompt: 'Author:', default: 'John', required: false}
+        ]
+    };
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        templateDir = path.join(tempDir, 'template');
+        targetDir = path.join(tempDir, 'out');
+        await fs.outputFile(path.join(templateDir, 'README.md'), '# {{PROJECT_NAME}}\n\nBy {{AUTHOR}}\n');
+        await fs.outputFile(path.join(templateDir, 'src', 'index.ts'), 'export const name = \'{{PROJECT_NAME}}\';\n');
+        await fs.outputJson(path.join(templateDir, 'gen-from.json'), {messages: ['Run npm start in {{PROJECT_NAME}}']});
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.remove(tempDir);
+    });
+
+    test('should generate a project without printing, and report what it did', async () => {
+        const events: GenerateEvent['type'][] = [];
+        const result = await generate({
+            template: templateDir,
+            target: targetDir,
+            answers: {PROJECT_NAME: 'my-lib'},
+            config,
+            onEvent: event => events.push(event.type)
+        });
+
+        expect(result.template).toEqual({name: templateDir, source: templateDir});
+        expect(result.answers).toEqual({PROJECT_NAME: 'my-lib', AUTHOR: 'John'});
+        expect(result.summary?.written.sort()).toEqual(['README.md', path.join('src', 'index.ts')]);
+        expect(result.replacements.PROJECT_NAME).toEqual({count: 2, replacement: 'my-lib'});
+        expect(result.files.find(file => file.path === 'README.md')).toMatchObject({change: 'new', replacements: 2});
+        expect(result.record).toMatchObject({answers: {PROJECT_NAME: 'my-lib', AUTHOR: 'John'}});
+        expect(result.messages).toEqual(['Run npm start in my-lib']);
+        expect(result.hooks).toEqual([]);
+
+        expect(events).toEqual(['fetch', 'fetched', 'process', 'processed', 'written']);
+        expect(console.log).not.toHaveBeenCalled();
+        expect(await fs.readFile(path.join(targetDir, 'README.md'), 'utf-8')).toBe('# my-lib\n\nBy John\n');
+        expect(await fs.pathExists(path.join(targetDir, '.gen-from.json'))).toBe(true);
+    });
+
+    test('should throw typed errors instead of exiting', async () => {
+        await expect(generate({template: templateDir, target: targetDir, config})).rejects.toThrow(InputError);
+
+        await fs.outputFile(path.join(targetDir, 'README.md'), '# Mine\n');
+        const conflict = generate({template: templateDir, target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config});
+        await expect(conflict).rejects.toThrow(ConflictError);
+        await expect(conflict).rejects.toMatchObject({paths: ['README.md']});
+        expect(await fs.pathExists(path.join(targetDir, 'src'))).toBe(false);
+
+        const skipped = await generate({template: templateDir, target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config, onConflict: 'skip'});
+        expect(skipped.summary?.kept).toEqual(['README.md']);
+        expect(await fs.readFile(path.join(targetDir, 'README.md'), 'utf-8')).toBe('# Mine\n');
+    });
+
+    test('should compare without writing on a dry run', async () => {
+        const result = await generate({template: templateDir, target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config, dryRun: true});
+
+        expect(result.summary).toBeNull();
+        expect(result.files.map(file => [file.path, file.change])).toEqual([['README.md', 'new'], [path.join('src', 'index.ts'), 'new'], ['.gen-from.json', 'new']]);
+        expect(await fs.pathExists(targetDir)).toBe(false);
+    });
+
+    test('should replace bare keys in templates the registry marks as using them', async () => {
+        await fs.outputFile(path.join(templateDir, 'LICENSE'), 'Copyright AUTHOR\n');
+        const legacy: Config = {...config, templates: [{name: 'legacy', description: '', repo: `file:${templateDir}`, bareKeys: true}]};
+
+        await generate({template: 'legacy', target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config: legacy});
+
+        expect(await fs.readFile(path.join(targetDir, 'LICENSE'), 'utf-8')).toBe('Copyright John\n');
+    });
+
+    test('should merge three-way with the version recorded in the target', async () => {
+        const recordedDir = path.join(tempDir, 'recorded');
+        await fs.copy(templateDir, recordedDir);
+        await fs.outputFile(path.join(recordedDir, 'README.md'), '# {{PROJECT_NAME}}\n\nTODO\nBy {{AUTHOR}}\n');
+        await fs.outputFile(path.join(templateDir, 'README.md'), '# {{PROJECT_NAME}}\n\nTODO\nBy {{AUTHOR}}\nLicense: MIT\n');
+        await fs.outputFile(path.join(targetDir, 'README.md'), '# my-lib\n\nBy John\n');
+        await fs.outputJson(path.join(targetDir, '.gen-from.json'), {
+            template: {name: 'lib', source: 'github:john/lib-template', commit: 'abc1234'},
+            genFrom: '1.0.0',
+            generatedAt: '2024-01-01T00:00:00.000Z',
+            answers: {PROJECT_NAME: 'my-lib'}
+        });
+        jest.spyOn(sources, 'downloadTemplate').mockImplementation(async (spec, dir) => {
+            await fs.copy(spec.endsWith('#abc1234') ? recordedDir : templateDir, dir);
+            return {version: spec.endsWith('#abc1234') ? 'abc1234' : 'def5678', cached: true};
+        });
+        const resolver = jest.fn(async () => 'merge' as const);
+
+        const result = await generate({template: 'lib', target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config, onConflict: resolver});
+
+        expect(resolver).toHaveBeenCalledWith(expect.objectContaining({path: 'README.md', base: '# my-lib\n\nTODO\nBy John\n'}));
+        expect(result.summary?.merged).toEqual(['README.md']);
+        // The line removed from the project stays removed, a two-way merge would bring it back
+        expect(await fs.readFile(path.join(targetDir, 'README.md'), 'utf-8')).toBe('# my-lib\n\nBy John\nLicense: MIT\n');
+    });
+
+    test('should merge layers on top of the template', async () => {
+        const dockerDir = path.join(tempDir, 'docker');
+        await fs.outputJson(path.join(templateDir, 'package.json'), {name: '{{PROJECT_NAME}}', scripts: {build: 'tsc'}});
+        await fs.outputFile(path.join(dockerDir, 'Dockerfile'), 'LABEL name={{PROJECT_NAME}}\n');
+        await fs.outputJson(path.join(dockerDir, 'package.json'), {scripts: {docker: 'docker build -t {{PROJECT_NAME}} .'}});
+        await fs.outputJson(path.join(dockerDir, 'gen-from.json'), {messages: ['Run npm run docker'], placeholders: [{key: 'PORT', default: '8080'}]});
+
+        const result = await generate({template: templateDir, layers: [dockerDir], target: targetDir, answers: {PROJECT_NAME: 'my-lib'}, config});
+
+        expect(result.layers.map(layer => layer.name)).toEqual([templateDir, dockerDir]);
+        expect(result.answers).toEqual({PROJECT_NAME: 'my-lib', AUTHOR: 'John', PORT: '8080'});
+        expect(result.messages).toEqual(['Run npm start in my-lib', 'Run npm run docker']);
+        expect(result.record?.layers).toEqual([{name: templateDir, source: templateDir}, {name: dockerDir, source: dockerDir}]);
+        expect(await fs.readJson(path.join(targetDir, 'package.json'))).toEqual({name: 'my-lib', scripts: {build: 'tsc', docker: 'docker build -t my-lib .'}});
+        expect(await fs.readFile(path.join(targetDir, 'Dockerfile'), 'utf-8')).toBe('LABEL name=my-lib\n');
+    });
+
+    test('should find registry templates by name, with a pinned ref', () => {
+        expect(findTemplate(config.templates, 'lib')).toBe(config.templates[0]);
+        expect(findTemplate(config.templates, 'lib#v2.0.0').repo).toBe('john/lib-template#v2.0.0');
+        expect(findTemplate(config.templates, 'other')).toMatchObject({name: 'other', repo: 'phucbm/other'});
+    });
+});
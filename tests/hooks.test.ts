@@ -0,0 +1,83 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {detectPackageManager, getNextSteps, isGitRepository, runHooks} from '../src/hooks';
+
+describe('Post-generation hooks', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.remove(tempDir);
+    });
+
+    test('should detect the package manager from package.json, lockfiles or the user agent', async () => {
+        expect(await detectPackageManager(tempDir, {})).toBe('npm');
+        expect(await detectPackageManager(tempDir, {npm_config_user_agent: 'pnpm/10.0.0 npm/? node/v20.0.0'})).toBe('pnpm');
+
+        await fs.writeFile(path.join(tempDir, 'yarn.lock'), '');
+        expect(await detectPackageManager(tempDir, {npm_config_user_agent: 'pnpm/10.0.0'})).toBe('yarn');
+
+        await fs.writeJson(path.join(tempDir, 'package.json'), {packageManager: 'bun@1.2.0'});
+        expect(await detectPackageManager(tempDir, {})).toBe('bun');
+    });
+
+    test('should suggest only the scripts the project has', async () => {
+        await fs.writeJson(path.join(tempDir, 'package.json'), {packageManager: 'pnpm@10.0.0', scripts: {build: 'tsup', test: 'jest'}});
+
+        expect(await getNextSteps(tempDir, false, {})).toEqual(['pnpm install', 'pnpm run build', 'pnpm test']);
+        expect(await getNextSteps(tempDir, true, {})).toEqual(['pnpm run build', 'pnpm test']);
+        expect(await getNextSteps(path.join(tempDir, 'missing'), false, {})).toEqual([]);
+    });
+
+    test('should only run template commands once confirmed', async () => {
+        const plan = {install: false, git: false, commands: ['echo ok > out.txt', 'exit 3'], templateName: 'tpl'};
+
+        const declined = await runHooks(tempDir, plan, {confirmCommands: async () => false});
+        expect(declined.map(result => result.status)).toEqual(['skipped', 'skipped']);
+        expect(await fs.pathExists(path.join(tempDir, 'out.txt'))).toBe(false);
+
+        const confirmed = await runHooks(tempDir, plan, {confirmCommands: async () => true});
+        expect(confirmed.map(result => result.status)).toEqual(['done', 'failed']);
+        expect(confirmed[1].detail).toContain('exited with code 3');
+        expect((await fs.readFile(path.join(tempDir, 'out.txt'), 'utf-8')).trim()).toBe('ok');
+    });
+
+    test('should stop the running step and cancel the next ones once aborted', async () => {
+        const controller = new AbortController();
+        const plan = {install: false, git: true, commands: ['sleep 5', 'echo ok > out.txt'], templateName: 'tpl'};
+        setTimeout(() => controller.abort(), 200);
+
+        const results = await runHooks(tempDir, {...plan, git: false}, {confirmCommands: async () => true, signal: controller.signal});
+        expect(results.map(result => result.status)).toEqual(['cancelled', 'cancelled']);
+
+        const confirmCommands = jest.fn(async () => true);
+        const after = await runHooks(tempDir, plan, {confirmCommands, signal: controller.signal});
+        expect(after.map(result => [result.kind, result.status])).toEqual([['git', 'cancelled'], ['command', 'cancelled'], ['command', 'cancelled']]);
+        expect(confirmCommands).not.toHaveBeenCalled();
+        expect(await fs.pathExists(path.join(tempDir, 'out.txt'))).toBe(false);
+        expect(await isGitRepository(tempDir)).toBe(false);
+    });
+
+    test('should initialize a repository with an initial commit', async () => {
+        const env = {
+            ...process.env,
+            GIT_AUTHOR_NAME: 'gen-from', GIT_AUTHOR_EMAIL: 'gen-from@example.com',
+            GIT_COMMITTER_NAME: 'gen-from', GIT_COMMITTER_EMAIL: 'gen-from@example.com'
+        };
+        await fs.writeFile(path.join(tempDir, 'README.md'), '# App');
+
+        const results = await runHooks(tempDir, {install: false, git: true, commands: [], templateName: 'tpl'}, {env, confirmCommands: async () => false});
+
+        expect(results).toEqual([{kind: 'git', step: 'Initialize a git repository', status: 'done'}]);
+        expect(await isGitRepository(tempDir)).toBe(true);
+
+        const again = await runHooks(tempDir, {install: false, git: true, commands: [], templateName: 'tpl'}, {env, confirmCommands: async () => false});
+        expect(again[0]).toMatchObject({status: 'skipped', detail: 'already inside a git repository'});
+    });
+});
@@ -0,0 +1,223 @@
+jest.mock('prompts');
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import prompts from 'prompts';
+import type {Choice, PromptObject} from 'prompts';
+import {coerceAnswer, collectInputs, evaluateCondition, loadAnswersFile, parseVarAssignments, readEnvInputs, orderPlaceholders, resolvePresetInputs, validateAnswer} from '../src/inputs';
+import type {Placeholder} from '../src/types';
+
+const mockPrompts = prompts as jest.MockedFunction<typeof prompts>;
+
+const placeholders: Placeholder[] = [
+    {key: 'USERNAME', prompt: 'GitHub username:', default: '', required: true},
+    {key: 'PROJECT_NAME', prompt: 'Project name:', default: 'my-project', required: true},
+    {key: 'DESCRIPTION', prompt: 'Description:', default: 'A new project', required: false}
+];
+
+describe('Non-interactive inputs', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should parse --var assignments and keep "=" in values', () => {
+        expect(parseVarAssignments(['USERNAME=john', 'QUERY=a=b'])).toEqual({USERNAME: 'john', QUERY: 'a=b'});
+        expect(() => parseVarAssignments(['USERNAME'])).toThrow('expected KEY=value');
+    });
+
+    test('should read GEN_FROM_VAR_ environment variables', () => {
+        expect(readEnvInputs({GEN_FROM_VAR_USERNAME: 'john', GEN_FROM_VAR_: 'x', PATH: '/bin'})).toEqual({USERNAME: 'john'});
+    });
+
+    test('should load JSON and YAML answers files keeping value types', async () => {
+        const jsonPath = path.join(tempDir, 'answers.json');
+        const yamlPath = path.join(tempDir, 'answers.yaml');
+        await fs.writeJson(jsonPath, {USERNAME: 'john', PORT: 3000});
+        await fs.writeFile(yamlPath, 'USERNAME: jane\nKEYWORDS:\n  - cli\n  - tool\n');
+
+        expect(await loadAnswersFile(jsonPath)).toEqual({USERNAME: 'john', PORT: 3000});
+        expect(await loadAnswersFile(yamlPath)).toEqual({USERNAME: 'jane', KEYWORDS: ['cli', 'tool']});
+    });
+
+    test('should let --var win over env and answers file', async () => {
+        const answersFile = path.join(tempDir, 'answers.json');
+        await fs.writeJson(answersFile, {USERNAME: 'file', PROJECT_NAME: 'file-project', DESCRIPTION: 'from file'});
+
+        const presets = await resolvePresetInputs({
+            answersFile,
+            vars: ['USERNAME=flag'],
+            env: {GEN_FROM_VAR_USERNAME: 'env', GEN_FROM_VAR_PROJECT_NAME: 'env-project'}
+        });
+
+        expect(presets).toEqual({USERNAME: 'flag', PROJECT_NAME: 'env-project', DESCRIPTION: 'from file'});
+    });
+
+    test('should list every missing required placeholder without prompting', async () => {
+        await expect(collectInputs(placeholders, {presets: {}, yes: false, interactive: false}))
+            .rejects.toThrow('Missing required placeholders: USERNAME, PROJECT_NAME');
+        expect(mockPrompts).not.toHaveBeenCalled();
+    });
+
+    test('should accept defaults with --yes', async () => {
+        const inputs = await collectInputs(placeholders, {presets: {USERNAME: 'john'}, yes: true, interactive: true});
+
+        expect(inputs).toEqual({USERNAME: 'john', PROJECT_NAME: 'my-project', DESCRIPTION: 'A new project'});
+        expect(mockPrompts).not.toHaveBeenCalled();
+    });
+
+    test('should only prompt for placeholders without a preset', async () => {
+        mockPrompts
+            .mockResolvedValueOnce({PROJECT_NAME: 'awesome-app'})
+            .mockResolvedValueOnce({DESCRIPTION: ''});
+
+        const inputs = await collectInputs(placeholders, {presets: {USERNAME: 'john'}, yes: false, interactive: true});
+
+        expect(mockPrompts.mock.calls.map(([question]) => (question as PromptObject).name)).toEqual(['PROJECT_NAME', 'DESCRIPTION']);
+        expect(inputs).toEqual({USERNAME: 'john', PROJECT_NAME: 'awesome-app', DESCRIPTION: ''});
+    });
+});
+
+describe('Typed placeholders', () => {
+    const typed: Placeholder[] = [
+        {key: 'USE_REACT', prompt: 'Use React?', type: 'confirm', default: false, required: false},
+        {key: 'FRAMEWORK', prompt: 'Framework:', type: 'select', choices: ['vite', {value: 'next', title: 'Next.js'}], default: 'vite', required: true, when: 'USE_REACT'},
+        {key: 'FEATURES', prompt: 'Features:', type: 'multiselect', choices: ['eslint', 'prettier', 'storybook'], default: ['eslint'], required: false},
+        {key: 'PORT', prompt: 'Port:', type: 'number', default: 3000, required: false},
+        {key: 'VERSION', prompt: 'Version:', default: '0.1.0', required: true, validate: 'semver'}
+    ];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should coerce answers to the placeholder type', () => {
+        expect(coerceAnswer(typed[0], 'yes')).toBe(true);
+        expect(coerceAnswer(typed[0], 'off')).toBe(false);
+        expect(() => coerceAnswer(typed[0], 'maybe')).toThrow('USE_REACT must be yes or no');
+        expect(coerceAnswer(typed[2], 'eslint, storybook')).toEqual(['eslint', 'storybook']);
+        expect(coerceAnswer(typed[3], '8080')).toBe(8080);
+        expect(() => coerceAnswer(typed[3], 'abc')).toThrow('PORT must be a number');
+    });
+
+    test('should validate choices, patterns and built-in validators', () => {
+        expect(validateAnswer(typed[1], 'next')).toBe(true);
+        expect(validateAnswer(typed[1], 'remix')).toBe('FRAMEWORK must be one of vite, next, got "remix"');
+        expect(validateAnswer(typed[4], '1.0')).toBe('VERSION must be a semantic version like 1.0.0');
+        expect(validateAnswer({key: 'NAME', prompt: '', default: '', required: false, validate: 'npm-name'}, '@john/My App')).toContain('npm package name');
+        expect(validateAnswer({key: 'EMAIL', prompt: '', default: '', required: false, validate: 'email'}, 'john@example.com')).toBe(true);
+        expect(validateAnswer({key: 'SITE', prompt: '', default: '', required: false, validate: 'url'}, 'ftp://x')).toContain('http(s) URL');
+        expect(validateAnswer({key: 'ID', prompt: '', default: '', required: false, pattern: '^[a-z]+$'}, 'Abc')).toBe('ID must match ^[a-z]+$');
+    });
+
+    test('should evaluate when conditions', () => {
+        const answers = {USE_REACT: true, FRAMEWORK: 'next', FEATURES: ['eslint']};
+
+        expect(evaluateCondition('USE_REACT', answers)).toBe(true);
+        expect(evaluateCondition('!USE_REACT', answers)).toBe(false);
+        expect(evaluateCondition('FRAMEWORK == "next"', answers)).toBe(true);
+        expect(evaluateCondition('FRAMEWORK != next', answers)).toBe(false);
+        expect(evaluateCondition('FEATURES == eslint', answers)).toBe(true);
+    });
+
+    test('should keep answer types and skip placeholders whose condition fails', async () => {
+        const inputs = await collectInputs(typed, {presets: {FEATURES: 'prettier,storybook'}, yes: true, interactive: false});
+
+        expect(inputs).toEqual({USE_REACT: false, FRAMEWORK: '', FEATURES: ['prettier', 'storybook'], PORT: 3000, VERSION: '0.1.0'});
+    });
+
+    test('should report invalid preset answers in non-interactive mode', async () => {
+        await expect(collectInputs(typed, {presets: {USE_REACT: 'true', FRAMEWORK: 'remix', PORT: 'x'}, yes: true, interactive: false}))
+            .rejects.toThrow(/FRAMEWORK must be one of vite, next[\s\S]*PORT must be a number/);
+    });
+
+    test('should build typed prompts and ask conditional ones', async () => {
+        mockPrompts
+            .mockResolvedValueOnce({USE_REACT: true})
+            .mockResolvedValueOnce({FRAMEWORK: 'next'})
+            .mockResolvedValueOnce({FEATURES: ['eslint']})
+            .mockResolvedValueOnce({PORT: 5173})
+            .mockResolvedValueOnce({VERSION: '1.0.0'});
+
+        const inputs = await collectInputs(typed, {presets: {}, yes: false, interactive: true});
+        const questions = mockPrompts.mock.calls.map(([question]) => question as PromptObject);
+
+        expect(questions.map(q => q.type)).toEqual(['confirm', 'select', 'multiselect', 'number', 'text']);
+        expect((questions[1].choices as Choice[]).map(c => c.title)).toEqual(['vite', 'Next.js']);
+        expect((questions[2].choices as Choice[]).map(c => c.selected)).toEqual([true, false, false]);
+        expect(inputs).toEqual({USE_REACT: true, FRAMEWORK: 'next', FEATURES: ['eslint'], PORT: 5173, VERSION: '1.0.0'});
+    });
+
+    test('should return null when a prompt is cancelled', async () => {
+        mockPrompts.mockImplementationOnce(async (_question, options: any) => {
+            options.onCancel();
+            return {};
+        });
+
+        expect(await collectInputs(typed, {presets: {}, yes: false, interactive: true})).toBeNull();
+    });
+});
+
+describe('Derived placeholders', () => {
+    const base: Placeholder[] = [
+        {key: 'REPO_URL', prompt: '', default: '', required: false, derive: 'https://github.com/{{USERNAME}}/{{PROJECT_NAME}}'},
+        {key: 'PACKAGE_NAME', prompt: 'Package name:', default: '@{{USERNAME}}/{{PROJECT_NAME}}', required: false, validate: 'npm-name'},
+        {key: 'USERNAME', prompt: 'GitHub username:', default: 'your-username', required: true},
+        {key: 'PROJECT_NAME', prompt: 'Project name:', default: 'my-project', required: true},
+        {key: 'PASCAL_NAME', prompt: '', default: '', required: false, derive: '{{PROJECT_NAME | pascalCase}}'}
+    ];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should order placeholders after the keys they depend on', () => {
+        expect(orderPlaceholders(base).map(p => p.key)).toEqual(['USERNAME', 'PROJECT_NAME', 'REPO_URL', 'PACKAGE_NAME', 'PASCAL_NAME']);
+    });
+
+    test('should detect circular dependencies', () => {
+        const cyclic: Placeholder[] = [
+            {key: 'A', prompt: '', default: '', required: false, derive: '{{B}}'},
+            {key: 'B', prompt: '', default: '', required: false, derive: '{{C | kebabCase}}'},
+            {key: 'C', prompt: '', default: '{{A}}', required: false}
+        ];
+
+        expect(() => orderPlaceholders(cyclic)).toThrow('Circular placeholder dependency: A -> B -> C -> A');
+    });
+
+    test('should compute derived values and templated defaults', async () => {
+        const inputs = await collectInputs(base, {presets: {USERNAME: 'john', PROJECT_NAME: 'awesome-app'}, yes: true, interactive: false});
+
+        expect(inputs).toEqual({
+            USERNAME: 'john',
+            PROJECT_NAME: 'awesome-app',
+            REPO_URL: 'https://github.com/john/awesome-app',
+            PACKAGE_NAME: '@john/awesome-app',
+            PASCAL_NAME: 'AwesomeApp'
+        });
+        // Without --yes too, like the bundled PACKAGE_NAME, which is not required
+        expect(await collectInputs(base, {presets: {USERNAME: 'john', PROJECT_NAME: 'awesome-app'}, yes: false, interactive: false})).toEqual(inputs);
+    });
+
+    test('should never prompt for derived values and let presets override them', async () => {
+        mockPrompts
+            .mockResolvedValueOnce({USERNAME: 'john'})
+            .mockResolvedValueOnce({PROJECT_NAME: 'app'})
+            .mockResolvedValueOnce({PACKAGE_NAME: 'app'});
+
+        const inputs = await collectInputs(base, {presets: {REPO_URL: 'https://gitlab.com/john/app'}, yes: false, interactive: true});
+        const questions = mockPrompts.mock.calls.map(([question]) => question as PromptObject);
+
+        expect(questions.map(q => q.name)).toEqual(['USERNAME', 'PROJECT_NAME', 'PACKAGE_NAME']);
+        expect(questions[2].initial).toBe('@john/app');
+        expect(inputs?.REPO_URL).toBe('https://gitlab.com/john/app');
+        expect(inputs?.PASCAL_NAME).toBe('App');
+    });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {findTemplate} from '../src/generate';
+import {deepMerge, mergeJsonText, mergeLayer, resolveLayers} from '../src/layers';
+import type {Template} from '../src/types';
+
+describe('Template layers', () => {
+    const templates: Template[] = [
+        {name: 'base', description: 'Base', repo: 'john/base'},
+        {name: 'web', description: 'Web app', repo: 'john/web', extends: 'base', layers: ['eslint']},
+        {name: 'eslint', description: 'ESLint', repo: 'john/eslint'},
+        {name: 'docker', description: 'Docker', repo: 'john/docker', extends: 'base'},
+        {name: 'loop-a', description: '', repo: 'john/loop-a', extends: 'loop-b'},
+        {name: 'loop-b', description: '', repo: 'john/loop-b', layers: ['loop-a']}
+    ];
+    const find = (name: string) => findTemplate(templates, name);
+    const names = (layers: Template[]) => layers.map(layer => layer.name);
+
+    test('should order what a template extends, the template, its layers and the extra ones', () => {
+        expect(names(resolveLayers(find('base'), find))).toEqual(['base']);
+        expect(names(resolveLayers(find('web'), find, ['docker', 'storybook']))).toEqual(['base', 'web', 'eslint', 'docker', 'storybook']);
+        expect(resolveLayers(find('web'), find, ['storybook'])[3].repo).toBe('phucbm/storybook');
+    });
+
+    test('should reject templates that extend themselves', () => {
+        expect(() => resolveLayers(find('loop-a'), find)).toThrow('Circular template extends: loop-a -> loop-b -> loop-a');
+    });
+
+    test('should deep-merge JSON values', () => {
+        expect(deepMerge(
+            {name: 'app', scripts: {build: 'tsc'}, keywords: ['cli'], private: false},
+            {scripts: {start: 'node .'}, keywords: ['cli', 'docker'], private: true}
+        )).toEqual({name: 'app', scripts: {build: 'tsc', start: 'node .'}, keywords: ['cli', 'docker'], private: true});
+    });
+
+    test('should keep keys named like object internals as plain keys', () => {
+        const merged = JSON.parse(mergeJsonText('{"a": 1, "constructor": "x"}', '{"__proto__": {"polluted": 1}, "b": 2, "constructor": "y"}')!);
+
+        expect(Object.keys(merged)).toEqual(['a', 'constructor', '__proto__', 'b']);
+        expect(merged.constructor).toBe('y');
+        expect(merged.polluted).toBeUndefined();
+        expect(JSON.parse(mergeJsonText('{"toString": 1}', '{"valueOf": 2}')!)).toEqual({toString: 1, valueOf: 2});
+        expect(Object.getPrototypeOf(deepMerge({}, JSON.parse('{"__proto__": {"polluted": 1}}')))).toBe(Object.prototype);
+    });
+
+    test('should keep the comments and trailing commas of the first file', () => {
+        const tsconfig = '{\n  // Shared settings\n  "compilerOptions": {\n    "strict": true,\n  },\n}\n';
+
+        expect(mergeJsonText(tsconfig, '{"compilerOptions": {"jsx": "react-jsx"}}')).toBe('{\n  // Shared settings\n  "compilerOptions": {\n    "strict": true,\n    "jsx": "react-jsx",\n  },\n}\n');
+    });
+
+    test('should keep the indentation of the first file and give up on invalid JSON', () => {
+        expect(mergeJsonText('{\n    "a": 1\n}\n', '{\n  // comment\n  "b": [2],\n}')).toBe('{\n    "a": 1,\n    "b": [\n        2\n    ]\n}\n');
+        expect(mergeJsonText('{"a": 1}', '{"a": ')).toBeNull();
+    });
+
+    describe('merging rendered layers', () => {
+        let tempDir: string;
+        let baseDir: string;
+        let layerDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+            baseDir = path.join(tempDir, 'base');
+            layerDir = path.join(tempDir, 'layer');
+        });
+
+        afterEach(async () => {
+            await fs.remove(tempDir);
+        });
+
+        test('should add and replace files, and deep-merge JSON files', async () => {
+            await fs.outputFile(path.join(baseDir, 'README.md'), '# App\n');
+            await fs.outputFile(path.join(baseDir, 'package.json'), '{\n  "name": "app",\n  "scripts": {"build": "tsc"}\n}\n');
+            await fs.outputFile(path.join(layerDir, 'README.md'), '# App with Docker\n');
+            await fs.outputFile(path.join(layerDir, 'package.json'), '{"scripts": {"docker": "docker build ."}}');
+            await fs.outputFile(path.join(layerDir, 'Dockerfile'), 'FROM node:20\n');
+            const events: unknown[] = [];
+
+            const reports = await mergeLayer(
+                {name: 'base', dir: baseDir, reports: [{path: 'README.md', replacements: 1}, {path: 'package.json', replacements: 1}]},
+                {name: 'docker', dir: layerDir, reports: [{path: 'README.md', replacements: 0}, {path: 'package.json', replacements: 2}, {path: 'Dockerfile', replacements: 0}]},
+                event => events.push(event)
+            );
+
+            expect(reports).toEqual([
+                {path: 'README.md', replacements: 0},
+                {path: 'package.json', replacements: 3},
+                {path: 'Dockerfile', replacements: 0}
+            ]);
+            expect(await fs.readFile(path.join(baseDir, 'README.md'), 'utf-8')).toBe('# App with Docker\n');
+            expect(await fs.readJson(path.join(baseDir, 'package.json'))).toEqual({name: 'app', scripts: {build: 'tsc', docker: 'docker build .'}});
+            expect(await fs.readFile(path.join(baseDir, 'Dockerfile'), 'utf-8')).toBe('FROM node:20\n');
+            expect(events).toEqual([]);
+        });
+
+        test('should let the layer replace a JSON file that cannot be merged', async () => {
+            await fs.outputFile(path.join(baseDir, 'data.json'), '{"a": 1}');
+            await fs.outputFile(path.join(layerDir, 'data.json'), 'not json');
+            const events: unknown[] = [];
+
+            await mergeLayer(
+                {name: 'base', dir: baseDir, reports: [{path: 'data.json', replacements: 0}]},
+                {name: 'broken', dir: layerDir, reports: [{path: 'data.json', replacements: 0}]},
+                event => events.push(event)
+            );
+
+            expect(await fs.readFile(path.join(baseDir, 'data.json'), 'utf-8')).toBe('not json');
+            expect(events).toEqual([{type: 'warning', message: 'data.json could not be merged with the one from broken, which replaces it'}]);
+        });
+    });
+});
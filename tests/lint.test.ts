@@ -0,0 +1,93 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {lintTemplate} from '../src/lint';
+import type {Placeholder} from '../src/types';
+
+describe('Template lint', () => {
+    let templateDir: string;
+
+    const globalPlaceholders: Placeholder[] = [
+        {key: 'PROJECT_NAME', prompt: 'Project name:', default: '', required: true},
+        {key: 'AUTHOR', prompt: 'Author:', default: '', required: false}
+    ];
+
+    beforeEach(async () => {
+        templateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(templateDir);
+    });
+
+    async function writeFiles(files: Record<string, string>): Promise<void> {
+        for (const [filePath, content] of Object.entries(files)) {
+            await fs.outputFile(path.join(templateDir, filePath), content);
+        }
+    }
+
+    test('should accept a template whose placeholders are declared and used', async () => {
+        await writeFiles({
+            'gen-from.json': JSON.stringify({
+                placeholders: [{key: 'LICENSE_TYPE', prompt: 'License:'}, {key: 'PORT', prompt: 'Port:'}, {key: 'BIN', prompt: 'Bin:'}],
+                derived: {CLASS_NAME: '{{PROJECT_NAME | pascalCase}}'},
+                postGenerate: ['echo {{BIN}}']
+            }),
+            'README.md': '# {{PROJECT_NAME}}\n\n{{#each AUTHORS}}- {{name}}{{/each}}\nLicense: {{LICENSE_TYPE}}\n',
+            'src/__CLASS_NAME__.ts': 'export const port = {{PORT | trim}};\n',
+            '.github/workflows/ci.yml': 'token: ${{ secrets.TOKEN }}\n'
+        });
+
+        const issues = await lintTemplate(templateDir, [...globalPlaceholders, {key: 'AUTHORS', prompt: 'Authors:', default: '', required: false}]);
+
+        expect(issues).toEqual([]);
+    });
+
+    test('should report undeclared, unused and malformed placeholders', async () => {
+        await writeFiles({
+            'gen-from.json': JSON.stringify({placeholders: [{key: 'UNUSED', prompt: 'Unused:'}], ignore: ['docs/**']}),
+            'README.md': '# {{PROJECT_NAME}}\n\n{{DESCRIPTION}}\n{{AUTHOR | shout}}\n{{AUTHOR | constructor}}\n',
+            'src/{{MODULE}}.ts': '{{#if AUTHOR}}\nexport {};\n',
+            'docs/guide.md': '{{IGNORED}}\n',
+            // The global AUTHOR is used, but unused globals are never reported
+            'LICENSE': 'MIT\n',
+            'package.json': '{\n  "name": "PROJECT_NAME"\n}\n'
+        });
+
+        const issues = await lintTemplate(templateDir, globalPlaceholders);
+
+        expect(issues).toEqual(expect.arrayContaining([
+            {severity: 'error', file: 'README.md', line: 3, message: '{{DESCRIPTION}} is not a declared placeholder, it would be left as it is'},
+            {severity: 'error', file: 'README.md', line: 4, message: 'unknown filter "shout"'},
+            {severity: 'error', file: 'README.md', line: 5, message: 'unknown filter "constructor"'},
+            {severity: 'error', file: path.join('src', '{{MODULE}}.ts'), line: 1, message: '{{MODULE}} is not a declared placeholder, it would be left as it is'},
+            {severity: 'error', file: path.join('src', '{{MODULE}}.ts'), line: 1, message: '{{#if}} is never closed'},
+            {severity: 'warning', file: 'gen-from.json', message: 'placeholder UNUSED is declared but never used'},
+            {severity: 'warning', file: 'package.json', line: 2, message: 'PROJECT_NAME is written without delimiters and is not replaced, write {{PROJECT_NAME}} or set "bareKeys": true'}
+        ]));
+        expect(issues).toHaveLength(7);
+    });
+
+    test('should follow the delimiters and bare keys of the template', async () => {
+        await writeFiles({
+            'gen-from.json': JSON.stringify({placeholders: [{key: 'PORT', prompt: 'Port:'}], delimiters: ['<%', '%>'], bareKeys: true}),
+            'README.md': '# PROJECT_NAME <% UNKNOWN %> {{VUE_PROP}}\n',
+            '.env': 'PORT=3000\nDB_PORT=5432\n'
+        });
+
+        expect(await lintTemplate(templateDir, globalPlaceholders)).toEqual([
+            {severity: 'warning', file: '.env', line: 2, message: 'bare key PORT is replaced inside DB_PORT'},
+            {severity: 'error', file: 'README.md', line: 1, message: '<%UNKNOWN%> is not a declared placeholder, it would be left as it is'}
+        ]);
+    });
+
+    test('should report a malformed manifest', async () => {
+        await writeFiles({'gen-from.json': '{"placeholders": {}}'});
+
+        expect(await lintTemplate(templateDir)).toEqual([{
+            severity: 'error',
+            file: 'gen-from.json',
+            message: 'Invalid gen-from.json: "placeholders" must be an array of objects with a "key"'
+        }]);
+    });
+});
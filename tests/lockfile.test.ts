@@ -0,0 +1,87 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {createGenerationRecord, readLockfile, writeLockfile} from '../src/lockfile';
+import type {Placeholder} from '../src/types';
+
+describe('Generation lockfile', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    const placeholder = (key: string, extra: Partial<Placeholder> = {}): Placeholder => ({key, prompt: `${key}:`, default: '', required: false, ...extra});
+    const template = {name: 'npm-utils-template', source: 'github:phucbm/npm-utils-template#v1.2.0', commit: 'a'.repeat(40)};
+
+    test('should record the answers without secrets and derived values', () => {
+        const placeholders = [
+            placeholder('PROJECT_NAME'),
+            placeholder('FEATURES', {type: 'multiselect', choices: ['lint', 'test']}),
+            placeholder('NPM_TOKEN', {type: 'password'}),
+            placeholder('API_KEY', {secret: true}),
+            placeholder('PUBLIC_PASSWORD_HINT', {type: 'password', secret: false}),
+            placeholder('PACKAGE_NAME', {derive: '{{PROJECT_NAME | kebabCase}}'}),
+            placeholder('USE_REACT')
+        ];
+        const record = createGenerationRecord(template, '1.4.0', placeholders, {
+            PROJECT_NAME: 'my-app',
+            FEATURES: ['lint'],
+            NPM_TOKEN: 'npm_secret',
+            API_KEY: 'key',
+            PUBLIC_PASSWORD_HINT: 'hint',
+            PACKAGE_NAME: 'my-app',
+            // Not a placeholder of this template, e.g. a stray --var
+            OTHER: 'value'
+        });
+
+        expect(record).toMatchObject({template, genFrom: '1.4.0'});
+        expect(record.answers).toEqual({PROJECT_NAME: 'my-app', FEATURES: ['lint'], PUBLIC_PASSWORD_HINT: 'hint'});
+        expect(Number.isNaN(Date.parse(record.generatedAt))).toBe(false);
+    });
+
+    test('should leave out the commit of local templates', () => {
+        const record = createGenerationRecord({name: 'local', source: '/templates/local'}, '1.4.0', [], {});
+
+        expect(record.template).toEqual({name: 'local', source: '/templates/local'});
+    });
+
+    test('should write and read the lockfile', async () => {
+        const record = createGenerationRecord(template, '1.4.0', [placeholder('PROJECT_NAME')], {PROJECT_NAME: 'my-app'});
+
+        expect(await readLockfile(tempDir)).toBeNull();
+        await writeLockfile(tempDir, record);
+
+        expect(await readLockfile(tempDir)).toEqual(record);
+        expect(await fs.readFile(path.join(tempDir, '.gen-from.json'), 'utf-8')).toMatch(/^{\n {2}"template": {\n/);
+    });
+
+    test('should record the layers of a layered template', async () => {
+        const docker = {name: 'docker', source: 'github:phucbm/docker'};
+
+        expect(createGenerationRecord(template, '1.4.0', [], {}, [template])).not.toHaveProperty('layers');
+
+        const record = createGenerationRecord(template, '1.4.0', [], {}, [template, docker]);
+        expect(record.layers).toEqual([template, docker]);
+
+        await writeLockfile(tempDir, record);
+        expect(await readLockfile(tempDir)).toEqual(record);
+    });
+
+    test('should reject a malformed lockfile', async () => {
+        await fs.outputFile(path.join(tempDir, '.gen-from.json'), '{"template": {"name": "tpl"}}');
+        await expect(readLockfile(tempDir)).rejects.toThrow('Invalid .gen-from.json: "template" must have a "name" and a "source"');
+
+        await fs.outputFile(path.join(tempDir, '.gen-from.json'), '{"template": {"name": "tpl", "source": "github:john/tpl"}, "answers": []}');
+        await expect(readLockfile(tempDir)).rejects.toThrow('"answers" must be an object');
+        await fs.outputFile(path.join(tempDir, '.gen-from.json'), '{"template": {"name": "tpl", "source": "github:john/tpl"}, "answers": {"PORT": {"value": 3000}}}');
+        await expect(readLockfile(tempDir)).rejects.toThrow('"answers" must be an object');
+
+        await fs.outputFile(path.join(tempDir, '.gen-from.json'), '{"template": {"name": "tpl", "source": "github:john/tpl"}, "layers": [{"name": "docker"}], "answers": {}}');
+        await expect(readLockfile(tempDir)).rejects.toThrow('every entry of "layers" must have a "name" and a "source"');
+    });
+});
@@ -0,0 +1,202 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {loadManifest, mergePlaceholders, removeIgnoredFiles} from '../src/manifest';
+
+describe('Template manifest', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should return an empty manifest when gen-from.json is missing', async () => {
+        const manifest = await loadManifest(tempDir);
+
+        expect(manifest).toEqual({
+            placeholders: [],
+            ignore: [],
+            messages: [],
+            process: {include: [], exclude: []},
+            verbatim: [],
+            rename: {_gitignore: '.gitignore', _npmrc: '.npmrc', _gitattributes: '.gitattributes'},
+            install: false,
+            git: false,
+            postGenerate: [],
+            patches: [],
+            defaultPatches: true,
+            delimiters: ['{{', '}}'],
+            bareKeys: false
+        });
+    });
+
+    test('should read placeholders, ignore globs and messages', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {
+            placeholders: [{key: 'PORT', prompt: 'Dev server port:', default: '3000'}],
+            ignore: 'docs/**',
+            messages: ['Run pnpm dev to start'],
+            process: {exclude: ['fixtures/**']}
+        });
+
+        const manifest = await loadManifest(tempDir);
+
+        expect(manifest.placeholders).toEqual([{key: 'PORT', prompt: 'Dev server port:', default: '3000'}]);
+        expect(manifest.ignore).toEqual(['docs/**']);
+        expect(manifest.messages).toEqual(['Run pnpm dev to start']);
+        expect(manifest.process).toEqual({include: [], exclude: ['fixtures/**']});
+    });
+
+    test('should turn the derived map into derived placeholders', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {derived: {PASCAL_NAME: '{{PROJECT_NAME | pascalCase}}'}});
+
+        const manifest = await loadManifest(tempDir);
+
+        expect(manifest.placeholders).toEqual([{key: 'PASCAL_NAME', derive: '{{PROJECT_NAME | pascalCase}}'}]);
+    });
+
+    test('should reject a malformed process section', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {process: ['src/**']});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"process" must be an object');
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {process: {include: [1]}});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"process.include" must be a string or an array of strings');
+    });
+
+    test('should read verbatim globs and merge renames over the defaults', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {verbatim: 'test/fixtures/**', rename: {_npmrc: '.npmrc.example', 'dot-env': '.env'}});
+
+        const manifest = await loadManifest(tempDir);
+
+        expect(manifest.verbatim).toEqual(['test/fixtures/**']);
+        expect(manifest.rename).toEqual({_gitignore: '.gitignore', _npmrc: '.npmrc.example', _gitattributes: '.gitattributes', 'dot-env': '.env'});
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {rename: {_env: '../.env'}});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"rename" must map file names to file names');
+    });
+
+    test('should read post-generation steps', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {install: true, postGenerate: 'pnpm run setup'});
+
+        const manifest = await loadManifest(tempDir);
+
+        expect(manifest).toMatchObject({install: true, git: false, postGenerate: ['pnpm run setup']});
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {git: 'yes'});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"git" must be true or false');
+    });
+
+    test('should read the placeholder syntax of the template', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {delimiters: ['<%', '%>'], bareKeys: true});
+
+        expect(await loadManifest(tempDir)).toMatchObject({delimiters: ['<%', '%>'], bareKeys: true});
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {delimiters: ['<%']});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"delimiters" must be an opening and a closing delimiter');
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {delimiters: ['<% ', '%>']});
+        await expect(loadManifest(tempDir)).rejects.toThrow('"delimiters" must be an opening and a closing delimiter');
+    });
+
+    test('should read patches and reject malformed ones', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {
+            defaultPatches: false,
+            patches: [{file: 'tsconfig.json', set: {'compilerOptions.strict': true}, remove: 'compilerOptions.baseUrl'}]
+        });
+
+        expect(await loadManifest(tempDir)).toMatchObject({
+            defaultPatches: false,
+            patches: [{file: 'tsconfig.json', set: {'compilerOptions.strict': true}, remove: ['compilerOptions.baseUrl']}]
+        });
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {patches: [{set: {name: 'x'}}]});
+        await expect(loadManifest(tempDir)).rejects.toThrow('patch 1 needs a "file" glob');
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {patches: [{file: 'a.json', append: {keywords: 'cli'}}]});
+        await expect(loadManifest(tempDir)).rejects.toThrow('to arrays in "append"');
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {patches: [{file: 'a.json', set: {'scripts..dev': 'x'}}]});
+        await expect(loadManifest(tempDir)).rejects.toThrow('Invalid patch path "scripts..dev"');
+    });
+
+    test('should reject placeholders without a key', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {placeholders: [{prompt: 'Oops'}]});
+
+        await expect(loadManifest(tempDir)).rejects.toThrow('"placeholders" must be an array');
+    });
+
+    test('should reject unknown placeholder types and selects without choices', async () => {
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {placeholders: [{key: 'A', type: 'date'}]});
+        await expect(loadManifest(tempDir)).rejects.toThrow('placeholder A has unknown type "date"');
+
+        await fs.writeJson(path.join(tempDir, 'gen-from.json'), {placeholders: [{key: 'B', type: 'select'}]});
+        await expect(loadManifest(tempDir)).rejects.toThrow('placeholder B needs "choices"');
+    });
+
+    test('should name the placeholder and the field that has the wrong type', async () => {
+        const cases: [Record<string, unknown>, string][] = [
+            [{key: 'A', required: 'yes'}, 'placeholder A has a "required" that is not true or false'],
+            [{key: 'B', prompt: 42}, 'placeholder B has a "prompt" that is not a string'],
+            [{key: 'C', when: true}, 'placeholder C has a "when" that is not a string'],
+            [{key: 'D', default: {name: 'x'}}, 'placeholder D has a "default" that is not a string, number, boolean or array of strings'],
+            [{key: 'E', pattern: '['}, 'placeholder E has an invalid "pattern"'],
+            [{key: 'F', type: 'select', choices: [{title: 'No value'}]}, 'placeholder F has "choices" that are not strings or objects with a "value"']
+        ];
+
+        for (const [placeholder, message] of cases) {
+            await fs.writeJson(path.join(tempDir, 'gen-from.json'), {placeholders: [placeholder]});
+            await expect(loadManifest(tempDir)).rejects.toThrow(message);
+        }
+    });
+
+    test('should merge template placeholders over global ones', () => {
+        const merged = mergePlaceholders(
+            [
+                {key: 'USERNAME', prompt: 'GitHub username:', default: 'your-username', required: true},
+                {key: 'PROJECT_NAME', prompt: 'Project name:', default: 'my-project', required: true}
+            ],
+            [
+                {key: 'PROJECT_NAME', default: 'my-app'},
+                {key: 'PORT', prompt: 'Dev server port:', default: '3000'}
+            ]
+        );
+
+        expect(merged).toEqual([
+            {key: 'USERNAME', prompt: 'GitHub username:', default: 'your-username', required: true},
+            {key: 'PROJECT_NAME', prompt: 'Project name:', default: 'my-app', required: true},
+            {key: 'PORT', prompt: 'Dev server port:', default: '3000', required: false}
+        ]);
+    });
+
+    test('should remove ignored files, the manifest and a lockfile', async () => {
+        await fs.outputFile(path.join(tempDir, 'gen-from.json'), '{}');
+        await fs.outputFile(path.join(tempDir, '.gen-from.json'), '{}');
+        await fs.outputFile(path.join(tempDir, 'docs', 'guide.md'), '# Guide');
+        await fs.outputFile(path.join(tempDir, 'TEMPLATE.md'), '# Template');
+        await fs.outputFile(path.join(tempDir, 'src', 'index.ts'), 'export {};');
+
+        const removed = await removeIgnoredFiles(tempDir, ['docs/**', 'TEMPLATE.md']);
+
+        expect(removed.sort()).toEqual(['.gen-from.json', 'TEMPLATE.md', 'docs', 'gen-from.json']);
+        expect(await fs.pathExists(path.join(tempDir, 'src', 'index.ts'))).toBe(true);
+    });
+
+    test('should remove files matched by .genfromignore rules', async () => {
+        await fs.outputFile(path.join(tempDir, '.genfromignore'), '# template only\nREADME.md\n/.github/\n*.log\n!keep.log\nfixtures/\n');
+        await fs.outputFile(path.join(tempDir, 'README.md'), '# Template');
+        await fs.outputFile(path.join(tempDir, 'docs', 'README.md'), '# Docs');
+        await fs.outputFile(path.join(tempDir, '.github', 'workflows', 'ci.yml'), '');
+        await fs.outputFile(path.join(tempDir, 'src', '.github', 'notes.md'), '');
+        await fs.outputFile(path.join(tempDir, 'src', 'fixtures', 'data.json'), '{}');
+        await fs.outputFile(path.join(tempDir, 'debug.log'), '');
+        await fs.outputFile(path.join(tempDir, 'keep.log'), '');
+
+        const removed = await removeIgnoredFiles(tempDir, []);
+
+        expect(removed.sort()).toEqual(['.genfromignore', '.github', 'README.md', 'debug.log', 'docs/README.md', 'src/fixtures']);
+        expect(await fs.pathExists(path.join(tempDir, 'src', '.github', 'notes.md'))).toBe(true);
+        expect(await fs.pathExists(path.join(tempDir, 'keep.log'))).toBe(true);
+    });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {mergeThreeWay, writeStagedFiles} from '../src/merge';
+import type {ConflictResolution} from '../src/merge';
+
+describe('Merging into existing directories', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should apply changes made on one side only', () => {
+        const base = 'a\nb\nc\nd\n';
+        const result = mergeThreeWay('a\nB\nc\nd\n', 'a\nb\nc\nD\n', base);
+
+        expect(result).toEqual({content: 'a\nB\nc\nD\n', conflicts: 0});
+    });
+
+    test('should mark lines changed on both sides', () => {
+        const result = mergeThreeWay('a\nmine\nc\n', 'a\ntheirs\nc\n', 'a\nb\nc\n');
+
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe('a\n<<<<<<< existing\nmine\n=======\ntheirs\n>>>>>>> template\nc\n');
+    });
+
+    test('should keep lines added on either side when there is no base', () => {
+        const existing = '# App\nOur notes\n## License\nMIT\n';
+        const template = '# App\n## License\nMIT\n## Install\npnpm add app\n';
+
+        expect(mergeThreeWay(existing, template).content).toBe('# App\nOur notes\n## License\nMIT\n## Install\npnpm add app\n');
+        expect(mergeThreeWay('name: old\n', 'name: new\n').content).toBe('<<<<<<< existing\nname: old\n=======\nname: new\n>>>>>>> template\n');
+    });
+
+    test('should write new files and resolve every file that differs', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        const targetDir = path.join(tempDir, 'target');
+        for (const name of ['keep.md', 'overwrite.md', 'new.md', 'merge.md']) {
+            await fs.outputFile(path.join(stagingDir, name), 'template\n');
+            await fs.outputFile(path.join(targetDir, name), 'existing\n');
+        }
+        await fs.outputFile(path.join(stagingDir, 'src', 'index.ts'), 'export {};\n');
+
+        const resolutions: Record<string, ConflictResolution> = {'keep.md': 'keep', 'overwrite.md': 'overwrite', 'new.md': 'new', 'merge.md': 'merge'};
+        const resolve = jest.fn(async (change: {path: string}) => resolutions[change.path]);
+        const summary = await writeStagedFiles(stagingDir, targetDir, [
+            ...Object.keys(resolutions).map(name => ({path: name, replacements: 0, change: 'modified' as const})),
+            {path: path.join('src', 'index.ts'), replacements: 0, change: 'new'}
+        ], resolve);
+
+        expect(resolve).toHaveBeenCalledTimes(4);
+        expect(summary).toEqual({
+            written: ['overwrite.md', path.join('src', 'index.ts')],
+            unchanged: [],
+            kept: ['keep.md'],
+            newFiles: ['new.md.new'],
+            merged: [],
+            conflicted: ['merge.md']
+        });
+        expect(await fs.readFile(path.join(targetDir, 'keep.md'), 'utf-8')).toBe('existing\n');
+        expect(await fs.readFile(path.join(targetDir, 'overwrite.md'), 'utf-8')).toBe('template\n');
+        expect(await fs.readFile(path.join(targetDir, 'new.md.new'), 'utf-8')).toBe('template\n');
+        expect(await fs.readFile(path.join(targetDir, 'merge.md'), 'utf-8')).toContain('<<<<<<< existing');
+    });
+
+    test('should keep the byte order mark and line endings of a merged file', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        const targetDir = path.join(tempDir, 'target');
+        await fs.outputFile(path.join(stagingDir, 'notes.md'), 'a\nb\ntemplate\n');
+        await fs.outputFile(path.join(targetDir, 'notes.md'), '\uFEFFmine\r\na\r\nb\r\n');
+
+        const summary = await writeStagedFiles(stagingDir, targetDir, [{path: 'notes.md', replacements: 0, change: 'modified'}], async () => 'merge');
+
+        expect(summary?.merged).toEqual(['notes.md']);
+        expect(await fs.readFile(path.join(targetDir, 'notes.md'), 'utf-8')).toBe('\uFEFFmine\r\na\r\nb\r\ntemplate\r\n');
+    });
+
+    test('should write nothing when a conflict prompt is cancelled', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        const targetDir = path.join(tempDir, 'target');
+        await fs.outputFile(path.join(stagingDir, 'a.md'), 'template\n');
+        await fs.outputFile(path.join(stagingDir, 'b.md'), 'template\n');
+        await fs.outputFile(path.join(targetDir, 'b.md'), 'existing\n');
+
+        const summary = await writeStagedFiles(stagingDir, targetDir, [
+            {path: 'a.md', replacements: 0, change: 'new'},
+            {path: 'b.md', replacements: 0, change: 'modified'}
+        ], async () => null);
+
+        expect(summary).toBeNull();
+        expect(await fs.readdir(targetDir)).toEqual(['b.md']);
+    });
+
+    test('should roll back written files when writing fails partway', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        const targetDir = path.join(tempDir, 'target');
+        await fs.outputFile(path.join(stagingDir, 'a.md'), 'template\n');
+        await fs.outputFile(path.join(stagingDir, 'src', 'b.ts'), 'export {};\n');
+        await fs.outputFile(path.join(targetDir, 'a.md'), 'existing\n');
+
+        // missing.md is not staged, so copying it fails after the other files were written
+        await expect(writeStagedFiles(stagingDir, targetDir, [
+            {path: 'a.md', replacements: 0, change: 'modified'},
+            {path: path.join('src', 'b.ts'), replacements: 0, change: 'new'},
+            {path: 'missing.md', replacements: 0, change: 'new'}
+        ], async () => 'overwrite')).rejects.toThrow('ENOENT');
+
+        expect(await fs.readdir(targetDir)).toEqual(['a.md']);
+        expect(await fs.readFile(path.join(targetDir, 'a.md'), 'utf-8')).toBe('existing\n');
+    });
+
+    test('should stop and roll back when the signal is aborted', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        await fs.outputFile(path.join(stagingDir, 'a.md'), 'template\n');
+        const controller = new AbortController();
+        controller.abort(new Error('interrupted'));
+
+        await expect(writeStagedFiles(stagingDir, path.join(tempDir, 'target'), [
+            {path: 'a.md', replacements: 0, change: 'new'}
+        ], async () => 'overwrite', controller.signal)).rejects.toThrow('interrupted');
+
+        expect(await fs.pathExists(path.join(tempDir, 'target'))).toBe(false);
+    });
+});
@@ -0,0 +1,201 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {processFiles} from '../src/files';
+import {applyPatch, DEFAULT_PATCHES, parsePatchPath} from '../src/patch';
+
+describe('Patches', () => {
+    test('should parse dotted paths with indexes and escapes', () => {
+        expect(parsePatchPath('jobs.test.steps[0].name')).toEqual(['jobs', 'test', 'steps', 0, 'name']);
+        expect(parsePatchPath('exports.\\./utils')).toEqual(['exports', './utils']);
+        expect(() => parsePatchPath('scripts.')).toThrow('empty key');
+        expect(() => parsePatchPath('steps[first]')).toThrow('array index');
+    });
+
+    test('should edit JSON with comments and keep its formatting', () => {
+        const tsconfig = [
+            '{',
+            '    // Shared settings',
+            '    "extends": "./base.json",',
+            '    "compilerOptions": {',
+            '        "baseUrl": ".",',
+            '        // Loosened for now',
+            '        "strict": false',
+            '    }',
+            '}',
+            ''
+        ].join('\n');
+
+        const {content, changed} = applyPatch(tsconfig, 'tsconfig.json', {
+            file: 'tsconfig.json',
+            set: {'compilerOptions.strict': true, 'compilerOptions.outDir': 'dist'},
+            remove: ['compilerOptions.baseUrl', 'include']
+        }, {});
+
+        expect(changed).toEqual(['compilerOptions.strict', 'compilerOptions.outDir', 'compilerOptions.baseUrl']);
+        expect(content).toBe([
+            '{',
+            '    // Shared settings',
+            '    "extends": "./base.json",',
+            '    "compilerOptions": {',
+            '        // Loosened for now',
+            '        "strict": true,',
+            '        "outDir": "dist"',
+            '    }',
+            '}',
+            ''
+        ].join('\n'));
+        expect(applyPatch('{"a": 1, "b": [1, 2]}', 'a.json', {file: '*.json', remove: ['b']}, {}).content).toBe('{"a": 1}');
+    });
+
+    test('should edit YAML workflows and keep comments', () => {
+        const workflow = [
+            '# Runs on every push',
+            'name: CI',
+            'on: [push]',
+            'jobs:',
+            '  test:',
+            '    runs-on: ubuntu-latest # fastest',
+            '    steps:',
+            '      - uses: actions/checkout@v4',
+            '      - run: npm test',
+            ''
+        ].join('\n');
+
+        const {content} = applyPatch(workflow, '.github/workflows/ci.yml', {
+            file: '.github/workflows/*.yml',
+            set: {'name': '{{PROJECT_NAME}} CI', 'jobs.test.steps[1].run': 'pnpm test'},
+            append: {'on': ['pull_request', 'push']}
+        }, {PROJECT_NAME: 'my-app'});
+
+        expect(content).toBe([
+            '# Runs on every push',
+            'name: my-app CI',
+            'on: [ push, pull_request ]',
+            'jobs:',
+            '  test:',
+            '    runs-on: ubuntu-latest # fastest',
+            '    steps:',
+            '      - uses: actions/checkout@v4',
+            '      - run: pnpm test',
+            ''
+        ].join('\n'));
+    });
+
+    test('should edit TOML keys in place and add missing ones to their table', () => {
+        const pyproject = [
+            '# Project metadata',
+            '[project]',
+            'name = "template" # renamed on generation',
+            'version = "0.1.0"',
+            'keywords = ["cli"]',
+            '',
+            '[tool.ruff]',
+            'line-length = 100',
+            ''
+        ].join('\n');
+
+        const {content} = applyPatch(pyproject, 'pyproject.toml', {
+            file: 'pyproject.toml',
+            set: {'project.name': '{{PROJECT_NAME}}', 'project.description': 'Made by {{USERNAME}}', 'tool.ruff.lint.select': ['E', 'F']},
+            append: {'project.keywords': ['{{PROJECT_NAME}}', 'cli']},
+            remove: ['project.version']
+        }, {PROJECT_NAME: 'my-app', USERNAME: 'john'});
+
+        expect(content).toBe([
+            '# Project metadata',
+            '[project]',
+            'name = "my-app" # renamed on generation',
+            'keywords = ["cli", "my-app"]',
+            'description = "Made by john"',
+            '',
+            '[tool.ruff]',
+            'line-length = 100',
+            'lint.select = ["E", "F"]',
+            ''
+        ].join('\n'));
+    });
+
+    test('should add a new TOML table when the file has none for the key', () => {
+        const cargo = '[package]\nname = "template"\nedition = "2021"\n';
+
+        const {content} = applyPatch(cargo, 'Cargo.toml', {
+            file: 'Cargo.toml',
+            set: {'package.name': '{{PROJECT_NAME | snakeCase}}', 'dependencies.serde': '1'}
+        }, {PROJECT_NAME: 'my-app'});
+
+        expect(content).toBe('[package]\nname = "my_app"\nedition = "2021"\n\n[dependencies]\nserde = "1"\n');
+    });
+
+    test('should update package.json with the default patches', () => {
+        const packageJson = [
+            '{',
+            '  "name": "@username/package-name",',
+            '  "version": "1.0.0",',
+            '  "author": {"name": "Your Name", "url": "https://github.com/username"},',
+            '  "homepage": "https://example.com",',
+            '  "keywords": ["existing", "typescript"]',
+            '}'
+        ].join('\n');
+
+        const {content} = applyPatch(packageJson, 'package.json', DEFAULT_PATCHES[0], {
+            PACKAGE_NAME: '@john/awesome-app',
+            USERNAME: 'john',
+            PROJECT_NAME: 'Awesome-App',
+            AUTHOR_NAME: '',
+            REPO_URL: 'https://github.com/john/awesome-app'
+        });
+
+        expect(JSON.parse(content)).toEqual({
+            name: '@john/awesome-app',
+            version: '1.0.0',
+            // AUTHOR_NAME was left empty, so the name is left alone
+            author: {name: 'Your Name', url: 'https://github.com/john'},
+            homepage: 'https://github.com/john/awesome-app',
+            keywords: ['existing', 'typescript', 'javascript', 'awesome-app', 'utility']
+        });
+        expect(content.split('\n')[1]).toBe('  "name": "@john/awesome-app",');
+    });
+
+    test('should reject files that are not JSON, YAML or TOML', () => {
+        expect(() => applyPatch('a = 1', 'setup.cfg', {file: '*.cfg', set: {a: 2}}, {})).toThrow('only JSON, YAML and TOML');
+    });
+
+    describe('when processing files', () => {
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+
+        afterEach(async () => {
+            jest.restoreAllMocks();
+            await fs.remove(tempDir);
+        });
+
+        test('should patch matching files after placeholders are replaced and keep their encoding', async () => {
+            await fs.outputFile(path.join(tempDir, 'package.json'), '﻿{\r\n  "name": "x",\r\n  "description": "{{PROJECT_NAME}}"\r\n}\r\n');
+            await fs.outputFile(path.join(tempDir, 'fixtures', 'package.json'), '{"name": "fixture"}');
+
+            await processFiles(tempDir, {PACKAGE_NAME: '@john/my-app', PROJECT_NAME: 'my-app'}, {
+                filter: {include: [], exclude: ['fixtures/**']},
+                patches: [...DEFAULT_PATCHES, {file: 'package.json', set: {private: true}}]
+            });
+
+            expect(await fs.readFile(path.join(tempDir, 'package.json'), 'utf-8'))
+                .toBe('﻿{\r\n  "name": "@john/my-app",\r\n  "description": "my-app",\r\n  "private": true\r\n}\r\n');
+            expect(await fs.readFile(path.join(tempDir, 'fixtures', 'package.json'), 'utf-8')).toBe('{"name": "fixture"}');
+        });
+
+        test('should warn and leave files alone when they cannot be parsed', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            await fs.outputFile(path.join(tempDir, 'package.json'), '{"name": ');
+
+            await processFiles(tempDir, {PACKAGE_NAME: 'my-app'});
+
+            expect(await fs.readFile(path.join(tempDir, 'package.json'), 'utf-8')).toBe('{"name": ');
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not patch package.json: invalid JSON'));
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {filterByTags, fuzzyScore, rankTemplates, readRecentTemplates, recordRecentTemplate} from '../src/picker';
+import type {Template} from '../src/types';
+
+describe('Template picker', () => {
+    const templates: Template[] = [
+        {name: 'npm-utils-template', description: 'TypeScript library for npm', repo: 'phucbm/npm-utils-template'},
+        {name: 'react-app', description: 'React app with Vite', repo: 'acme/react-app', tags: ['react', 'vite']},
+        {name: 'api-server', description: 'Express API', repo: 'acme/api', tags: ['node']},
+        {name: 'react-lib', description: 'React component library', repo: 'acme/react-lib', tags: ['react']}
+    ];
+    const names = (list: Template[]) => list.map(template => template.name);
+
+    test('should match characters in order, preferring runs and word starts', () => {
+        expect(fuzzyScore('rap', 'react-app')).not.toBeNull();
+        expect(fuzzyScore('par', 'react-app')).toBeNull();
+        expect(fuzzyScore('app', 'react-app')!).toBeGreaterThan(fuzzyScore('rep', 'react-app')!);
+    });
+
+    test('should group by category without a query, recently used first', () => {
+        expect(names(rankTemplates(templates))).toEqual(['react-app', 'react-lib', 'api-server', 'npm-utils-template']);
+        expect(names(rankTemplates(templates, '', ['npm-utils-template', 'api-server']))).toEqual(['npm-utils-template', 'api-server', 'react-app', 'react-lib']);
+    });
+
+    test('should keep the templates matching every word of the query, best first', () => {
+        expect(names(rankTemplates(templates, 'react'))).toEqual(['react-app', 'react-lib']);
+        expect(names(rankTemplates(templates, 'react lib'))).toEqual(['react-lib']);
+        expect(names(rankTemplates(templates, 'vite'))).toEqual(['react-app']);
+        expect(names(rankTemplates(templates, 'express'))).toEqual(['api-server']);
+        expect(names(rankTemplates(templates, 'zzz'))).toEqual([]);
+    });
+
+    test('should filter by every tag, ignoring case', () => {
+        expect(names(filterByTags(templates, ['React']))).toEqual(['react-app', 'react-lib']);
+        expect(names(filterByTags(templates, ['react', 'vite']))).toEqual(['react-app']);
+        expect(filterByTags(templates, [])).toEqual(templates);
+    });
+
+    test('should remember the last templates used, most recent first', async () => {
+        const homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        const options = {homeDir, env: {}};
+
+        try {
+            expect(await readRecentTemplates(options)).toEqual([]);
+
+            for (const name of ['a', 'b', 'c', 'a', 'd', 'e', 'f']) {
+                await recordRecentTemplate(name, options);
+            }
+            expect(await readRecentTemplates(options)).toEqual(['f', 'e', 'd', 'a', 'c']);
+
+            await fs.outputFile(path.join(homeDir, '.config', 'gen-from', 'recent.json'), 'not json');
+            expect(await readRecentTemplates(options)).toEqual([]);
+        } finally {
+            await fs.remove(homeDir);
+        }
+    });
+});
@@ -0,0 +1,55 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {compareWithTarget, formatTree} from '../src/preview';
+
+describe('Dry-run preview', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should draw relative paths as a tree', () => {
+        const paths = ['package.json', path.join('src', 'utils', 'index.ts'), path.join('src', 'index.ts'), 'README.md'];
+
+        expect(formatTree(paths, filePath => filePath === 'README.md' ? '(new)' : '')).toEqual([
+            '├── README.md  (new)',
+            '├── package.json',
+            '└── src/',
+            '    ├── index.ts',
+            '    └── utils/',
+            '        └── index.ts'
+        ]);
+    });
+
+    test('should compare staged files with the target without writing', async () => {
+        const stagingDir = path.join(tempDir, 'staging');
+        const targetDir = path.join(tempDir, 'target');
+        await fs.outputFile(path.join(stagingDir, 'README.md'), '# my-app\n\nBy john\n');
+        await fs.outputFile(path.join(stagingDir, 'LICENSE'), 'MIT\n');
+        await fs.outputFile(path.join(stagingDir, 'src', 'index.ts'), 'export {};\n');
+        await fs.outputFile(path.join(targetDir, 'README.md'), '# old\n\nBy john\n');
+        await fs.outputFile(path.join(targetDir, 'LICENSE'), 'MIT\n');
+
+        const changes = await compareWithTarget(stagingDir, targetDir, [
+            {path: 'README.md', replacements: 2},
+            {path: 'LICENSE', replacements: 0},
+            {path: path.join('src', 'index.ts'), replacements: 0}
+        ]);
+
+        expect(changes.map(({path: filePath, change}) => [filePath, change])).toEqual([
+            ['README.md', 'modified'],
+            ['LICENSE', 'unchanged'],
+            [path.join('src', 'index.ts'), 'new']
+        ]);
+        expect(changes[0].replacements).toBe(2);
+        expect(changes[0].diff).toBe('--- a/README.md\n+++ b/README.md\n@@ -1,3 +1,3 @@\n-# old\n+# my-app\n \n By john\n');
+        expect(await fs.readFile(path.join(targetDir, 'README.md'), 'utf-8')).toBe('# old\n\nBy john\n');
+        expect(await fs.pathExists(path.join(targetDir, 'src'))).toBe(false);
+    });
+});
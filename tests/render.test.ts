@@ -0,0 +1,83 @@
+import {createRenderer, defaultRenderer, listTemplateTags, TemplateSyntaxError} from '../src/render';
+
+describe('Template renderer', () => {
+    const render = (content: string, context: Record<string, unknown> = {}) => defaultRenderer.render(content, context, {file: 'README.md'});
+
+    test('should replace placeholders and apply filters', () => {
+        const context = {PROJECT_NAME: 'my-awesome app'};
+
+        expect(render('{{PROJECT_NAME}}', context)).toBe('my-awesome app');
+        expect(render('{{ PROJECT_NAME | pascalCase }}', context)).toBe('MyAwesomeApp');
+        expect(render('{{PROJECT_NAME|kebabCase}}', context)).toBe('my-awesome-app');
+        expect(render('{{PROJECT_NAME|constantCase}}', context)).toBe('MY_AWESOME_APP');
+        expect(render('{{PROJECT_NAME|camelCase}}', context)).toBe('myAwesomeApp');
+        expect(render('{{PROJECT_NAME | kebabCase | upper}}', context)).toBe('MY-AWESOME-APP');
+        expect(render('© {{NOW | year}}', {NOW: '2024-05-01T00:00:00.000Z'})).toBe('© 2024');
+    });
+
+    test('should split camelCase and acronyms into words', () => {
+        expect(render('{{NAME|kebabCase}}', {NAME: 'parseHTTPResponse'})).toBe('parse-http-response');
+    });
+
+    test('should render if, unless and else blocks', () => {
+        const template = '{{#if USE_REACT}}react{{else}}vanilla{{/if}}|{{#unless USE_REACT}}no-react{{/unless}}';
+
+        expect(render(template, {USE_REACT: 'true'})).toBe('react|');
+        expect(render(template, {USE_REACT: 'false'})).toBe('vanilla|no-react');
+        expect(render(template, {USE_REACT: true})).toBe('react|');
+    });
+
+    test('should loop over lists with each', () => {
+        const template = '{{#each KEYWORDS}}{{@index}}:{{this}};{{/each}}';
+
+        expect(render(template, {KEYWORDS: 'cli, tool'})).toBe('0:cli;1:tool;');
+        expect(render(template, {KEYWORDS: ['a', 'b']})).toBe('0:a;1:b;');
+        expect(render('{{#each DEPS}}{{name}}@{{version}} {{/each}}', {DEPS: [{name: 'a', version: '1'}]})).toBe('a@1 ');
+    });
+
+    test('should leave unknown expressions untouched', () => {
+        const workflow = 'token: ${{ secrets.GITHUB_TOKEN }}\nname: {{ UNKNOWN }}';
+
+        expect(render(workflow, {PROJECT_NAME: 'app'})).toBe(workflow);
+    });
+
+    test('should not find keys and filters every object inherits', () => {
+        expect(render('{{constructor}} {{toString}} {{valueOf}}', {NAME: 'x'})).toBe('{{constructor}} {{toString}} {{valueOf}}');
+        expect(render('{{#if hasOwnProperty}}yes{{/if}}{{#each constructor}}item{{/each}}', {NAME: 'x'})).toBe('');
+        expect(() => render('{{NAME | constructor}}', {NAME: 'x'})).toThrow('unknown filter "constructor"');
+    });
+
+    test('should report the file and line of syntax errors', () => {
+        expect(() => render('line 1\n{{#if USE_REACT}}\nline 3')).toThrow('README.md:2: {{#if}} is never closed');
+        expect(() => render('a\nb\n{{/each}}')).toThrow('README.md:3: {{/each}} without a matching opening tag');
+        expect(() => render('{{#each LIST}}\n{{/if}}')).toThrow('README.md:2: {{/if}} closes a {{#each}} opened on line 1');
+        expect(() => render('\n{{NAME | shout}}', {NAME: 'x'})).toThrow(TemplateSyntaxError);
+        expect(() => render('{{#if}}{{/if}}')).toThrow('{{#if}} needs a placeholder key');
+    });
+
+    test('should use other delimiters and keep escaped ones as text', () => {
+        const options = {file: 'App.vue', delimiters: ['<%', '%>'] as [string, string]};
+
+        expect(defaultRenderer.render('<h1>{{ title }}</h1> <% NAME | upper %>', {NAME: 'app', title: 'x'}, options)).toBe('<h1>{{ title }}</h1> APP');
+        expect(render('\\{{NAME}} is {{NAME}}', {NAME: 'app'})).toBe('{{NAME}} is app');
+        expect(() => defaultRenderer.render('\n<% #if A %>', {}, options)).toThrow('App.vue:2: <%#if%> is never closed');
+    });
+
+    test('should accept custom filters', () => {
+        const renderer = createRenderer({shout: value => `${value}!`});
+
+        expect(renderer.render('{{NAME | shout}}', {NAME: 'hi'})).toBe('hi!');
+    });
+
+    test('should list the tags of a template without rendering it', () => {
+        const tags = listTemplateTags('{{NAME | upper}}\n{{#each ITEMS}}{{title}} {{this}}{{/each}}\n{{#if DEBUG}}x{{/if}}');
+
+        expect(tags).toEqual([
+            {kind: 'var', key: 'NAME', filters: ['upper'], line: 1, inEach: false},
+            {kind: 'each', key: 'ITEMS', filters: [], line: 2, inEach: false},
+            {kind: 'var', key: 'title', filters: [], line: 2, inEach: true},
+            {kind: 'if', key: 'DEBUG', filters: [], line: 3, inEach: false}
+        ]);
+        expect(() => listTemplateTags('{{#if A}}', 'a.md')).toThrow('a.md:1: {{#if}} is never closed');
+    });
+});
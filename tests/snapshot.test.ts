@@ -0,0 +1,80 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {getSnapshotDir, resolveFixtures, testTemplate} from '../src/snapshot';
+import type {TemplateTestOptions} from '../src/snapshot';
+
+describe('Template snapshot tests', () => {
+    let tempDir: string;
+    let templateDir: string;
+    let fixture: string;
+
+    const run = (fixtures: string[], options: TemplateTestOptions = {}) => testTemplate(templateDir, fixtures, {
+        placeholders: [{key: 'PROJECT_NAME', prompt: 'Project name:', default: '', required: true}],
+        ...options
+    });
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        templateDir = path.join(tempDir, 'template');
+        fixture = path.join(tempDir, 'fixtures', 'basic.json');
+        await fs.outputFile(path.join(templateDir, 'README.md'), '# PROJECT_NAME\n');
+        await fs.outputFile(path.join(templateDir, 'src', 'index.ts'), 'export const name = \'{{PROJECT_NAME | kebabCase}}\';\n');
+        await fs.outputJson(fixture, {PROJECT_NAME: 'My App'});
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should write missing snapshots, then compare with them', async () => {
+        const snapshotDir = path.join(tempDir, 'fixtures', '__snapshots__', 'basic');
+        expect(getSnapshotDir(fixture)).toBe(snapshotDir);
+
+        expect(await run([fixture])).toEqual([{fixture, snapshotDir, status: 'written', changes: []}]);
+        expect(await fs.readFile(path.join(snapshotDir, 'src', 'index.ts'), 'utf-8')).toBe('export const name = \'my-app\';\n');
+
+        const [result] = await run([fixture]);
+        expect(result.status).toBe('passed');
+    });
+
+    test('should fail with the differences, and replace the snapshot when asked to', async () => {
+        await run([fixture]);
+        await fs.outputFile(path.join(templateDir, 'README.md'), '# PROJECT_NAME\n\nDocs\n');
+        await fs.remove(path.join(templateDir, 'src'));
+        await fs.outputFile(path.join(templateDir, 'LICENSE'), 'MIT\n');
+
+        const [failed] = await run([fixture]);
+        expect(failed.status).toBe('failed');
+        expect(failed.changes.map(({path, change}) => ({path, change}))).toEqual([
+            {path: 'LICENSE', change: 'added'},
+            {path: 'README.md', change: 'modified'},
+            {path: path.join('src', 'index.ts'), change: 'removed'}
+        ]);
+        expect(failed.changes[1].diff).toContain('+Docs');
+
+        const [updated] = await run([fixture], {update: true});
+        expect(updated.status).toBe('updated');
+        expect((await run([fixture]))[0].status).toBe('passed');
+        expect(await fs.pathExists(path.join(failed.snapshotDir, 'src'))).toBe(false);
+    });
+
+    test('should refuse fixtures the template would generate', async () => {
+        const inside = path.join(templateDir, 'fixtures', 'basic.json');
+        await fs.outputJson(inside, {PROJECT_NAME: 'app'});
+
+        await expect(run([inside])).rejects.toThrow(`${path.join('fixtures', 'basic.json')} is generated from the template, add fixtures to its .genfromignore`);
+
+        await fs.outputFile(path.join(templateDir, '.genfromignore'), 'fixtures/\n');
+        expect((await run([inside]))[0].status).toBe('written');
+        expect((await run([inside]))[0].status).toBe('passed');
+    });
+
+    test('should expand quoted globs of answers files', async () => {
+        await fs.outputJson(path.join(tempDir, 'fixtures', 'other.json'), {PROJECT_NAME: 'other'});
+
+        expect(await resolveFixtures(['fixtures/*.json'], tempDir)).toEqual([path.join('fixtures', 'basic.json'), path.join('fixtures', 'other.json')]);
+        expect(await resolveFixtures(['answers.json'], tempDir)).toEqual(['answers.json']);
+        await expect(resolveFixtures(['missing/*.json'], tempDir)).rejects.toThrow('No answers files match "missing/*.json"');
+    });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {describeSource, downloadTemplate, getApiUrl, isExplicitSource, parseTemplateSource, toTigedSource, validateTemplate} from '../src/sources';
+
+describe('Template sources', () => {
+    test('should parse bare GitHub repos with subdir and ref', () => {
+        expect(parseTemplateSource('phucbm/monorepo/templates/lib#v1.2.0')).toEqual({
+            type: 'github',
+            raw: 'phucbm/monorepo/templates/lib#v1.2.0',
+            host: 'github.com',
+            owner: 'phucbm',
+            repo: 'monorepo',
+            subdir: 'templates/lib',
+            ref: 'v1.2.0'
+        });
+    });
+
+    test('should parse GitLab, self-hosted GitLab and Bitbucket sources', () => {
+        expect(parseTemplateSource('gitlab:team/tpl')).toMatchObject({type: 'gitlab', host: 'gitlab.com', owner: 'team', repo: 'tpl'});
+        expect(parseTemplateSource('gitlab:git.acme.dev/team/tpl/sub#main')).toMatchObject({
+            type: 'gitlab',
+            host: 'git.acme.dev',
+            owner: 'team',
+            repo: 'tpl',
+            subdir: 'sub',
+            ref: 'main'
+        });
+        expect(parseTemplateSource('bitbucket:team/tpl.git')).toMatchObject({type: 'bitbucket', host: 'bitbucket.org', repo: 'tpl'});
+    });
+
+    test('should parse GitLab projects in subgroups, ended by /-/', () => {
+        const source = parseTemplateSource('gitlab:git.acme.dev/team/web/tpl/-/templates/lib#main');
+
+        expect(source).toMatchObject({host: 'git.acme.dev', owner: 'team/web', repo: 'tpl', subdir: 'templates/lib', ref: 'main'});
+        expect(describeSource(source)).toBe('gitlab:git.acme.dev/team/web/tpl/-/templates/lib#main');
+        expect(describeSource(parseTemplateSource('gitlab:team/web/tpl/-'))).toBe('gitlab:team/web/tpl/-');
+        expect(getApiUrl(source)).toBe('https://git.acme.dev/api/v4/projects/team%2Fweb%2Ftpl');
+        expect(parseTemplateSource('gitlab:team/tpl/sub')).toMatchObject({owner: 'team', repo: 'tpl', subdir: 'sub'});
+    });
+
+    test('should parse file: and path sources relative to cwd', () => {
+        expect(parseTemplateSource('file:./templates/lib', '/work')).toEqual({type: 'local', raw: 'file:./templates/lib', path: '/work/templates/lib'});
+        expect(parseTemplateSource('file:///srv/tpl', '/work').path).toBe('/srv/tpl');
+        expect(parseTemplateSource('../tpl', '/work/app').path).toBe('/work/tpl');
+        expect(() => parseTemplateSource('./tpl#main')).toThrow('refs are not supported');
+    });
+
+    test('should reject incomplete remote sources', () => {
+        expect(() => parseTemplateSource('gitlab:team')).toThrow('Invalid template source');
+        expect(() => parseTemplateSource('phucbm/tpl#')).toThrow('Invalid template source');
+    });
+
+    test('should tell explicit sources from bare template names', () => {
+        expect(isExplicitSource('npm-utils-template')).toBe(false);
+        expect(isExplicitSource('john/tpl')).toBe(true);
+        expect(isExplicitSource('gitlab:team/tpl')).toBe(true);
+        expect(isExplicitSource('/srv/tpl')).toBe(true);
+    });
+
+    test('should build tiged sources and API URLs per host', () => {
+        expect(toTigedSource(parseTemplateSource('john/tpl/sub#v1'))).toBe('github:john/tpl/sub#v1');
+        expect(toTigedSource(parseTemplateSource('gitlab:git.acme.dev/team/tpl#main'))).toBe('https://git.acme.dev/team/tpl#main');
+
+        expect(getApiUrl(parseTemplateSource('john/tpl'))).toBe('https://api.github.com/repos/john/tpl');
+        expect(getApiUrl(parseTemplateSource('gitlab:git.acme.dev/team/tpl'))).toBe('https://git.acme.dev/api/v4/projects/team%2Ftpl');
+        expect(getApiUrl(parseTemplateSource('bitbucket:team/tpl'))).toBe('https://api.bitbucket.org/2.0/repositories/team/tpl');
+    });
+
+    describe('Local templates', () => {
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+
+        afterEach(async () => {
+            jest.restoreAllMocks();
+            await fs.remove(tempDir);
+        });
+
+        test('should validate that the directory exists', async () => {
+            await expect(validateTemplate(tempDir)).resolves.toBeUndefined();
+            await expect(validateTemplate(path.join(tempDir, 'missing'))).rejects.toThrow('not found');
+        });
+
+        test('should copy the template without .git and node_modules', async () => {
+            const templateDir = path.join(tempDir, 'template');
+            const targetDir = path.join(tempDir, 'target');
+            await fs.outputFile(path.join(templateDir, 'src', 'index.ts'), 'export {};');
+            await fs.outputFile(path.join(templateDir, '.git', 'HEAD'), 'ref');
+            await fs.outputFile(path.join(templateDir, 'node_modules', 'dep', 'index.js'), '');
+
+            await downloadTemplate(`file:${templateDir}`, targetDir);
+
+            expect(await fs.readdir(targetDir)).toEqual(['src']);
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {createTransaction} from '../src/transaction';
+
+describe('Transactions', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    test('should restore overwritten files and remove created ones on rollback', async () => {
+        const existing = path.join(tempDir, 'README.md');
+        const created = path.join(tempDir, 'src', 'lib', 'index.ts');
+        await fs.writeFile(existing, 'original');
+
+        const transaction = await createTransaction();
+        await transaction.track(existing);
+        await fs.writeFile(existing, 'changed');
+        await transaction.track(created);
+        await fs.outputFile(created, 'export {};');
+        await transaction.rollback();
+
+        expect(await fs.readFile(existing, 'utf-8')).toBe('original');
+        expect(await fs.readdir(tempDir)).toEqual(['README.md']);
+    });
+
+    test('should keep the changes on commit', async () => {
+        const filePath = path.join(tempDir, 'README.md');
+        await fs.writeFile(filePath, 'original');
+
+        const transaction = await createTransaction();
+        await transaction.track(filePath);
+        await fs.writeFile(filePath, 'changed');
+        await transaction.commit();
+
+        expect(await fs.readFile(filePath, 'utf-8')).toBe('changed');
+    });
+});
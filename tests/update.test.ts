@@ -0,0 +1,98 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {applyUpdate, planUpdate} from '../src/update';
+
+describe('Project update', () => {
+    let tempDir: string;
+    let baseDir: string;
+    let nextDir: string;
+    let projectDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gen-from-test-'));
+        baseDir = path.join(tempDir, 'base');
+        nextDir = path.join(tempDir, 'next');
+        projectDir = path.join(tempDir, 'project');
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    async function writeFiles(dir: string, files: Record<string, string | Buffer>): Promise<string[]> {
+        for (const [filePath, content] of Object.entries(files)) {
+            await fs.outputFile(path.join(dir, filePath), content);
+        }
+        return Object.keys(files);
+    }
+
+    async function plan(base: Record<string, string | Buffer>, next: Record<string, string | Buffer>, project: Record<string, string | Buffer>) {
+        const basePaths = await writeFiles(baseDir, base);
+        const nextPaths = await writeFiles(nextDir, next);
+        await writeFiles(projectDir, project);
+        return planUpdate({dir: baseDir, paths: basePaths}, {dir: nextDir, paths: nextPaths}, projectDir);
+    }
+
+    test('should apply template changes to files the project did not change', async () => {
+        const changes = await plan(
+            {'README.md': '# app\n', 'src/old.ts': 'old\n', 'LICENSE': 'MIT\n'},
+            {'README.md': '# app\n\nDocs\n', 'src/new.ts': 'new\n', 'LICENSE': 'MIT\n'},
+            {'README.md': '# app\n', 'src/old.ts': 'old\n', 'LICENSE': 'MIT\n', 'src/own.ts': 'mine\n'}
+        );
+
+        expect(changes).toEqual([
+            {path: 'README.md', action: 'update'},
+            {path: path.join('src', 'new.ts'), action: 'add'},
+            {path: path.join('src', 'old.ts'), action: 'delete'}
+        ]);
+
+        await applyUpdate(changes, nextDir, projectDir);
+        expect(await fs.readFile(path.join(projectDir, 'README.md'), 'utf-8')).toBe('# app\n\nDocs\n');
+        expect(await fs.readFile(path.join(projectDir, 'src', 'new.ts'), 'utf-8')).toBe('new\n');
+        expect(await fs.pathExists(path.join(projectDir, 'src', 'old.ts'))).toBe(false);
+        expect(await fs.readFile(path.join(projectDir, 'src', 'own.ts'), 'utf-8')).toBe('mine\n');
+    });
+
+    test('should merge changes made on both sides and mark conflicts', async () => {
+        const changes = await plan(
+            {'a.txt': 'one\ntwo\nthree\n', 'b.txt': 'one\ntwo\n'},
+            {'a.txt': 'one\ntwo\nthree\nfour\n', 'b.txt': 'one\nTWO\n'},
+            {'a.txt': 'ONE\ntwo\nthree\n', 'b.txt': 'one\n2\n'}
+        );
+
+        expect(changes).toEqual([
+            {path: 'a.txt', action: 'merge', content: 'ONE\ntwo\nthree\nfour\n'},
+            {path: 'b.txt', action: 'conflict', content: 'one\n<<<<<<< project\n2\n=======\nTWO\n>>>>>>> template\n'}
+        ]);
+
+        await applyUpdate(changes, nextDir, projectDir);
+        expect(await fs.readFile(path.join(projectDir, 'b.txt'), 'utf-8')).toContain('<<<<<<< project');
+    });
+
+    test('should keep the byte order mark and line endings of merged project files', async () => {
+        const changes = await plan(
+            {'notes.md': 'one\ntwo\n'},
+            {'notes.md': 'one\ntwo\nthree\n'},
+            {'notes.md': '\uFEFFONE\r\ntwo\r\n'}
+        );
+
+        expect(changes).toEqual([{path: 'notes.md', action: 'merge', content: 'ONE\ntwo\nthree\n'}]);
+        await applyUpdate(changes, nextDir, projectDir);
+        expect(await fs.readFile(path.join(projectDir, 'notes.md'), 'utf-8')).toBe('\uFEFFONE\r\ntwo\r\nthree\r\n');
+    });
+
+    test('should leave project changes the template cannot be applied to', async () => {
+        const changes = await plan(
+            {'deleted.md': 'v1\n', 'removed.md': 'v1\n', 'logo.png': Buffer.from([0, 1, 2]), 'same.md': 'same\n'},
+            {'deleted.md': 'v2\n', 'logo.png': Buffer.from([0, 1, 3]), 'same.md': 'same\n', 'done.md': 'done\n'},
+            {'removed.md': 'edited\n', 'logo.png': Buffer.from([0, 9]), 'same.md': 'edited\n', 'done.md': 'done\n'}
+        );
+
+        expect(changes).toEqual([
+            {path: 'deleted.md', action: 'keep', reason: 'changed in the template, but deleted in the project'},
+            {path: 'logo.png', action: 'keep', reason: 'changed in the project, binary files are not merged'},
+            {path: 'removed.md', action: 'keep', reason: 'removed from the template, but changed in the project'}
+        ]);
+    });
+});
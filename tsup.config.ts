@@ -2,7 +2,7 @@ import {defineConfig} from 'tsup';
 import {generateBanner} from "@phucbm/banner";
 
 export default defineConfig({
-    entry: ['src/cli.ts'],
+    entry: ['src/cli.ts', 'src/index.ts'],
     outDir: 'dist',
     format: ['esm'],
     target: 'es2020',
@@ -10,7 +10,11 @@ export default defineConfig({
     bundle: true,
     minify: true,
     sourcemap: false,
-    dts: false,
+    dts: {
+        entry: 'src/index.ts'
+    },
+    // __dirname in the ESM build, for PACKAGE_DIR
+    shims: true,
     clean: true,
     banner: {
         js: generateBanner()